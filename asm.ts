@@ -0,0 +1,429 @@
+import { Level } from "./levels";
+import { ALIGNMENTS, OPCODES, REGISTERS, TRIGGERS } from "./opcodes";
+import { runLengthDecode, runLengthEncode } from "./utils";
+import {
+  ADD,
+  ADDRESS_MODE,
+  AND,
+  DIV,
+  MOD,
+  MUL,
+  OR,
+  SHL,
+  SHR,
+  XOR,
+  decodeTxt,
+  DOWN,
+  encodeTxt,
+  IMMEDIATE_MODE,
+  INSTR_DIRS,
+  INSTR_MODE,
+  INSTR_OPCODE,
+  INSTR_OPERAND,
+  LEFT,
+  LOD,
+  Machine,
+  PRG,
+  PROGRAM_COLS,
+  PROGRAM_ROWS,
+  RIGHT,
+  SAV,
+  STK,
+  SUB,
+  SWP,
+  TEQ,
+  TGT,
+  TLT,
+  TRIGGER_CYCLES,
+  TXT,
+  UP,
+} from "./vm";
+
+/**
+ * D13 assembly is a readable version of a level, designed to be reviewed and
+ * diffed. Directives start with a dot, and comments start with a semicolon.
+ *
+ * ```txt
+ * ; Comments are ignored
+ * .id 01_tutorial
+ * .cycles 10 11 12
+ * .label debugging starts with a single step
+ * .label decisions...
+ * .reg IP 122
+ * .reg DAT 5
+ * .stack 1 2 3
+ * .output 4 8 15
+ * .target 16 23 42
+ * .overflow
+ * .seed 1234
+ * .noxray
+ * .wrap
+ * .program
+ * .     | NOP >v  | LOD 10 | ...
+ * TXT 0 | ADD DAT | TEQ 5  | ...
+ * ```
+ *
+ * The `.program` directive must be followed by one line per row, with one
+ * cell per column, separated by `|`. Each cell is an opcode mnemonic, an
+ * optional operand, and optional directions (`>`, `v`, `<`, `^`). Operands
+ * are numbers in immediate mode and register names (or `@address`) in address
+ * mode. Empty cells are written as `.`.
+ *
+ * TXT instructions take a label index, followed by an optional alignment
+ * (`above`, `below`, `left`, `right`, `center`) and trigger (`enter`,
+ * `always`, `adjacent`, `cycles:N`, `once`), e.g. `TXT 1 left cycles:10`.
+ */
+
+/**
+ * Opcodes which always show their operand, even when it's zero.
+ */
+const OPERAND_OPCODES = [
+  LOD,
+  SAV,
+  SWP,
+  ADD,
+  SUB,
+  MUL,
+  DIV,
+  MOD,
+  AND,
+  OR,
+  XOR,
+  SHL,
+  SHR,
+  TEQ,
+  TLT,
+  TGT,
+  TXT,
+];
+
+const DIRECTION_CHARS = [
+  [RIGHT, ">"],
+  [DOWN, "v"],
+  [LEFT, "<"],
+  [UP, "^"],
+] as const;
+
+/**
+ * Compile D13 assembly into a level.
+ */
+export function assemble(source: string): Level {
+  let machine = new Machine();
+  let level: Level = { id: "", cycles: [0, 0, 0], labels: [], program: [] };
+  let lines = source.split("\n");
+  let row = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i].trim();
+    let fail = (message: string): never => {
+      throw new Error(`Line ${i + 1}: ${message}`);
+    };
+
+    if (line === "" || line.startsWith(";")) continue;
+
+    // Every line after .program is a row of instructions
+    if (row >= 0) {
+      if (row >= PROGRAM_ROWS) fail(`Expected ${PROGRAM_ROWS} rows`);
+      let cells = line.split("|");
+      if (cells.length !== PROGRAM_COLS) fail(`Expected ${PROGRAM_COLS} cells`);
+
+      for (let x = 0; x < PROGRAM_COLS; x++) {
+        let ptr = x + row * PROGRAM_COLS;
+        let instr =
+          parseInstruction(cells[x]) ??
+          fail(`Invalid instruction "${cells[x].trim()}"`);
+        instr.forEach((value, field) => machine.store(ptr, field, value));
+      }
+
+      row += 1;
+      continue;
+    }
+
+    let [directive, ...args] = line.split(/\s+/);
+
+    switch (directive) {
+      case ".id":
+        level.id = args.join(" ");
+        break;
+
+      case ".cycles":
+        if (args.length !== 3) fail("Expected gold, silver and bronze cycles");
+        level.cycles = args.map(
+          (arg) => parseNumber(arg) ?? fail(`Invalid cycles ${arg}`),
+        ) as Level["cycles"];
+        break;
+
+      case ".label":
+        level.labels.push(line.slice(directive.length).trim());
+        break;
+
+      case ".reg": {
+        let [name, value] = args;
+        let addr = parseRegister(name) ?? parseNumber(name);
+        if (addr === undefined || addr >= STK) fail(`Invalid register ${name}`);
+        machine.memory[addr!] =
+          parseNumber(value) ?? fail(`Invalid register value ${value}`);
+        break;
+      }
+
+      case ".stack":
+        if (args.length > PRG - STK) fail("Too many stack values");
+        args.forEach((arg, index) => {
+          machine.memory[STK + index] =
+            parseNumber(arg) ?? fail(`Invalid stack value ${arg}`);
+        });
+        break;
+
+      case ".output":
+        level.output = args.map(
+          (arg) => parseNumber(arg) ?? fail(`Invalid output value ${arg}`),
+        );
+        break;
+
+      case ".target":
+        level.stack = args.map(
+          (arg) => parseNumber(arg) ?? fail(`Invalid target value ${arg}`),
+        );
+        break;
+
+      case ".overflow":
+        level.overflow = true;
+        break;
+
+      case ".seed": {
+        let seed = Number(args[0]);
+        if (!args[0] || seed >>> 0 !== seed) fail(`Invalid seed ${args[0]}`);
+        level.seed = seed;
+        break;
+      }
+
+      case ".noxray":
+        level.xray = false;
+        break;
+
+      case ".wrap":
+        level.wrap = true;
+        break;
+
+      case ".program":
+        row = 0;
+        break;
+
+      default:
+        fail(`Unknown directive "${directive}"`);
+    }
+  }
+
+  if (row < PROGRAM_ROWS) {
+    throw new Error(`Expected .program with ${PROGRAM_ROWS} rows`);
+  }
+
+  level.program = runLengthEncode([...machine.memory]);
+  return level;
+}
+
+/**
+ * Turn a level back into D13 assembly.
+ */
+export function disassemble(level: Level): string {
+  let machine = new Machine(runLengthDecode(level.program));
+  let memory = machine.memory;
+  let lines = [`.id ${level.id}`, `.cycles ${level.cycles.join(" ")}`];
+
+  for (let label of level.labels) {
+    lines.push(`.label ${label}`);
+  }
+
+  for (let addr = 0; addr < STK; addr++) {
+    if (memory[addr] === 0) continue;
+    let name = REGISTERS[addr]?.label ?? addr;
+    lines.push(`.reg ${name} ${memory[addr]}`);
+  }
+
+  let stack = [...memory.subarray(STK, PRG)];
+  while (stack.length && stack[stack.length - 1] === 0) stack.pop();
+  if (stack.length) lines.push(`.stack ${stack.join(" ")}`);
+
+  if (level.output) {
+    lines.push(`.output ${level.output.join(" ")}`.trimEnd());
+  }
+
+  if (level.stack) {
+    lines.push(`.target ${level.stack.join(" ")}`.trimEnd());
+  }
+
+  if (level.overflow) lines.push(".overflow");
+  if (level.seed !== undefined) lines.push(`.seed ${level.seed}`);
+  if (level.xray === false) lines.push(".noxray");
+  if (level.wrap) lines.push(".wrap");
+
+  lines.push(".program");
+
+  let rows: string[][] = [];
+  let widths: number[] = [];
+
+  for (let y = 0; y < PROGRAM_ROWS; y++) {
+    let cells: string[] = [];
+
+    for (let x = 0; x < PROGRAM_COLS; x++) {
+      let ptr = x + y * PROGRAM_COLS;
+      let cell = formatInstruction(
+        machine.fetch(ptr, INSTR_OPCODE),
+        machine.fetch(ptr, INSTR_OPERAND),
+        machine.fetch(ptr, INSTR_MODE),
+        machine.fetch(ptr, INSTR_DIRS),
+      );
+      widths[x] = Math.max(widths[x] ?? 0, cell.length);
+      cells.push(cell);
+    }
+
+    rows.push(cells);
+  }
+
+  for (let cells of rows) {
+    let line = cells.map((cell, x) => cell.padEnd(widths[x])).join(" | ");
+    lines.push(line.trimEnd());
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Format a single instruction as assembly.
+ */
+export function formatInstruction(
+  opcode: number,
+  operand: number,
+  mode: number,
+  dirs: number,
+): string {
+  if (!opcode && !operand && !mode && !dirs) return ".";
+
+  let hex = `0x${opcode.toString(16).padStart(2, "0")}`;
+  let parts = [OPCODES[opcode]?.label ?? hex];
+
+  if (opcode === TXT) {
+    let { label, align, trigger, cycles } = decodeTxt(operand, mode);
+    parts.push(label.toString());
+    if (align) parts.push(ALIGNMENTS[align]?.label ?? "");
+    if (trigger === TRIGGER_CYCLES) parts.push(`cycles:${cycles}`);
+    else if (trigger) parts.push(TRIGGERS[trigger]?.label ?? "");
+  } else if (mode === ADDRESS_MODE) {
+    parts.push(REGISTERS[operand]?.label ?? `@${operand}`);
+  } else if (operand || OPERAND_OPCODES.includes(opcode)) {
+    parts.push(operand.toString());
+  }
+
+  let arrows = "";
+  for (let [dir, char] of DIRECTION_CHARS) {
+    if (dirs & dir) arrows += char;
+  }
+  if (arrows) parts.push(arrows);
+
+  return parts.join(" ");
+}
+
+/**
+ * Parse a single instruction from assembly into its fields (opcode, operand,
+ * mode and directions). Returns undefined if the instruction isn't valid.
+ */
+export function parseInstruction(cell: string): number[] | undefined {
+  let tokens = cell.trim().split(/\s+/);
+  let instr = [0, 0, IMMEDIATE_MODE, 0];
+
+  if (tokens.length === 1 && tokens[0] === ".") return instr;
+
+  let [mnemonic, ...args] = tokens;
+  let opcode = parseOpcode(mnemonic);
+  if (opcode === undefined) return;
+  instr[INSTR_OPCODE] = opcode;
+
+  // Directions are always the last token
+  if (args.length && /^[>v<^]+$/.test(args[args.length - 1])) {
+    for (let char of args.pop()!) {
+      instr[INSTR_DIRS] |= DIRECTION_CHARS.find(([, c]) => c === char)![0];
+    }
+  }
+
+  if (opcode === TXT) {
+    return parseTxt(args, instr);
+  }
+
+  if (args.length > 1) return;
+
+  if (args.length) {
+    let [arg] = args;
+    let value = parseNumber(arg);
+
+    if (value === undefined) {
+      value = arg.startsWith("@")
+        ? parseNumber(arg.slice(1))
+        : parseRegister(arg);
+      instr[INSTR_MODE] = ADDRESS_MODE;
+    }
+
+    if (value === undefined) return;
+    instr[INSTR_OPERAND] = value;
+  }
+
+  return instr;
+}
+
+/**
+ * Parse the arguments of a TXT instruction (`TXT 1 left cycles:10`).
+ */
+function parseTxt(args: string[], instr: number[]): number[] | undefined {
+  let [index, ...options] = args;
+  let fields = decodeTxt(0, 0);
+  // Labels and cycles have to fit in the 4 and 5 bits that encodeTxt packs
+  let label = parseNumber(index ?? "0");
+  if (label === undefined || label > 0b1111) return;
+  fields.label = label;
+
+  for (let option of options) {
+    let align = Object.keys(ALIGNMENTS).find(
+      (key) => ALIGNMENTS[key]?.label === option,
+    );
+    let trigger = Object.keys(TRIGGERS).find(
+      (key) => TRIGGERS[key]?.label === option,
+    );
+    let cycles = option.match(/^cycles:(\d+)$/);
+
+    if (align !== undefined) {
+      fields.align = Number(align);
+    } else if (cycles) {
+      if (Number(cycles[1]) > 0b11111) return;
+      fields.trigger = TRIGGER_CYCLES;
+      fields.cycles = Number(cycles[1]);
+    } else if (trigger !== undefined) {
+      fields.trigger = Number(trigger);
+    } else {
+      return;
+    }
+  }
+
+  let { operand, mode } = encodeTxt(fields);
+  instr[INSTR_OPERAND] = operand;
+  instr[INSTR_MODE] = mode;
+  return instr;
+}
+
+function parseOpcode(mnemonic: string): number | undefined {
+  for (let opcode in OPCODES) {
+    if (OPCODES[opcode]?.label === mnemonic) return Number(opcode);
+  }
+
+  return /^0x[0-9a-f]+$/i.test(mnemonic) ? parseNumber(mnemonic) : undefined;
+}
+
+function parseRegister(name: string): number | undefined {
+  for (let addr in REGISTERS) {
+    if (REGISTERS[addr]?.label === name) return Number(addr);
+  }
+}
+
+function parseNumber(text: string | undefined): number | undefined {
+  let value = Number(text);
+  let valid = text && Number.isInteger(value) && value >= 0 && value <= 255;
+  return valid ? value : undefined;
+}
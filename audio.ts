@@ -0,0 +1,173 @@
+import { frequency, Note, Pattern } from "./music";
+
+export type SoundEffect = "move" | "blocked" | "undo" | "pass" | "halt";
+
+/**
+ * Sound effects, as a list of `[frequency, duration]` blips played one after
+ * another.
+ */
+const SFX: Record<SoundEffect, number[][]> = {
+  move: [[440, 0.03]],
+  blocked: [
+    [110, 0.05],
+    [90, 0.08],
+  ],
+  undo: [
+    [660, 0.03],
+    [440, 0.04],
+  ],
+  pass: [
+    [660, 0.05],
+    [880, 0.08],
+  ],
+  halt: [
+    [523, 0.08],
+    [659, 0.08],
+    [784, 0.08],
+    [1047, 0.2],
+  ],
+};
+
+/**
+ * How far ahead (in seconds) music is scheduled.
+ */
+const LOOKAHEAD = 0.2;
+
+/**
+ * A tiny WebAudio synthesizer for the music and sound effects.
+ *
+ * Browsers won't start an audio context until the player interacts with the
+ * page, so the context is only created once `unlock` is called from an input
+ * handler. Anything played before then is silently skipped (apart from the
+ * music, which starts as soon as the synth is unlocked).
+ */
+export class Synth {
+  private ctx: AudioContext | undefined;
+  private master: GainNode | undefined;
+  private pattern: Pattern | undefined;
+  private nextStep = 0;
+  private nextStepTime = 0;
+  private timer = 0;
+
+  /**
+   * Create the audio context. Must be called from an input handler.
+   */
+  unlock() {
+    if (this.ctx) return;
+    this.ctx = new AudioContext();
+    this.master = this.ctx.createGain();
+    this.master.gain.value = 0.3;
+    this.master.connect(this.ctx.destination);
+    if (this.pattern) this.playMusic(this.pattern);
+  }
+
+  /**
+   * Loop a pattern, replacing whatever music was already playing.
+   */
+  playMusic(pattern: Pattern) {
+    this.pattern = pattern;
+    if (!this.ctx) return;
+    clearInterval(this.timer);
+    this.nextStep = 0;
+    this.nextStepTime = this.ctx.currentTime + 0.05;
+    this.timer = window.setInterval(
+      () => this.schedule(),
+      (LOOKAHEAD / 2) * 1000,
+    );
+    this.schedule();
+  }
+
+  /**
+   * Play a sound effect.
+   */
+  play(sfx: SoundEffect) {
+    if (!this.ctx) return;
+    let time = this.ctx.currentTime;
+
+    for (let [freq, duration] of SFX[sfx]) {
+      this.tone("square", freq, time, duration, 0.3);
+      time += duration;
+    }
+  }
+
+  /**
+   * Schedule every note that starts before the lookahead window ends.
+   */
+  private schedule() {
+    let { ctx, pattern } = this;
+    if (!ctx || !pattern) return;
+    let stepDuration = 60 / pattern.tempo / 4;
+    let starts = (note: Note) => note.step === this.nextStep;
+
+    while (this.nextStepTime < ctx.currentTime + LOOKAHEAD) {
+      let time = this.nextStepTime;
+
+      for (let note of pattern.bass.filter(starts)) {
+        let duration = note.length * stepDuration;
+        this.tone("triangle", frequency(note.pitch), time, duration, 0.5);
+      }
+
+      for (let note of pattern.lead.filter(starts)) {
+        let duration = note.length * stepDuration;
+        this.tone("square", frequency(note.pitch), time, duration, 0.1);
+      }
+
+      for (let note of pattern.drums.filter(starts)) {
+        this.drum(note.pitch, time);
+      }
+
+      this.nextStep = (this.nextStep + 1) % pattern.steps;
+      this.nextStepTime += stepDuration;
+    }
+  }
+
+  private tone(
+    type: OscillatorType,
+    freq: number,
+    time: number,
+    duration: number,
+    volume: number,
+  ) {
+    let ctx = this.ctx!;
+    let osc = ctx.createOscillator();
+    let gain = ctx.createGain();
+    osc.type = type;
+    osc.frequency.value = freq;
+    gain.gain.setValueAtTime(volume, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + duration);
+    osc.connect(gain).connect(this.master!);
+    osc.start(time);
+    osc.stop(time + duration);
+  }
+
+  /**
+   * Kicks are a falling sine wave, and snares are a short burst of noise.
+   */
+  private drum(kind: number, time: number) {
+    let ctx = this.ctx!;
+
+    if (kind === 0) {
+      let osc = ctx.createOscillator();
+      let gain = ctx.createGain();
+      osc.frequency.setValueAtTime(150, time);
+      osc.frequency.exponentialRampToValueAtTime(40, time + 0.1);
+      gain.gain.setValueAtTime(0.6, time);
+      gain.gain.exponentialRampToValueAtTime(0.001, time + 0.1);
+      osc.connect(gain).connect(this.master!);
+      osc.start(time);
+      osc.stop(time + 0.1);
+    } else {
+      let length = ctx.sampleRate * 0.05;
+      let buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+      let data = buffer.getChannelData(0);
+      for (let i = 0; i < length; i++) data[i] = Math.random() * 2 - 1;
+      let source = ctx.createBufferSource();
+      let gain = ctx.createGain();
+      source.buffer = buffer;
+      gain.gain.setValueAtTime(0.2, time);
+      gain.gain.exponentialRampToValueAtTime(0.001, time + 0.05);
+      source.connect(gain).connect(this.master!);
+      source.start(time);
+    }
+  }
+}
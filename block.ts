@@ -0,0 +1,197 @@
+import {
+  ALIGN_ABOVE,
+  ALIGN_BELOW,
+  ALIGN_LEFT,
+  ALIGN_RIGHT,
+  decodeTxt,
+  DOWN,
+  encodeTxt,
+  IMMEDIATE_MODE,
+  INSTR_DIRS,
+  INSTR_MODE,
+  INSTR_OPCODE,
+  INSTR_OPERAND,
+  INSTR_WIDTH,
+  LEFT,
+  Machine,
+  NIL,
+  PROGRAM_COLS,
+  PROGRAM_ROWS,
+  RIGHT,
+  TXT,
+  UP,
+} from "./vm";
+
+/**
+ * A rectangle of instructions, copied out of a program. Each cell is an
+ * `[opcode, operand, mode, dirs]` tuple, stored row by row.
+ */
+export interface Block {
+  cols: number;
+  rows: number;
+  cells: number[][];
+}
+
+/**
+ * An instruction that can't be entered.
+ */
+export const EMPTY_CELL = [NIL, 0, IMMEDIATE_MODE, 0];
+
+/**
+ * Copy a rectangle of instructions out of a machine's program.
+ */
+export function copyBlock(
+  machine: Machine,
+  x: number,
+  y: number,
+  cols: number,
+  rows: number,
+): Block {
+  let cells: number[][] = [];
+
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) {
+      let ptr = x + i + (y + j) * PROGRAM_COLS;
+      let cell: number[] = [];
+      for (let field = 0; field < INSTR_WIDTH; field++) {
+        cell[field] = machine.fetch(ptr, field);
+      }
+      cells.push(cell);
+    }
+  }
+
+  return { cols, rows, cells };
+}
+
+/**
+ * Write a block into a machine's program with its top left corner at a
+ * given cell. Anything that falls outside the program is dropped.
+ */
+export function pasteBlock(
+  machine: Machine,
+  block: Block,
+  x: number,
+  y: number,
+) {
+  for (let j = 0; j < block.rows; j++) {
+    for (let i = 0; i < block.cols; i++) {
+      if (x + i < 0 || x + i >= PROGRAM_COLS) continue;
+      if (y + j < 0 || y + j >= PROGRAM_ROWS) continue;
+      let ptr = x + i + (y + j) * PROGRAM_COLS;
+      let cell = block.cells[i + j * block.cols];
+      cell.forEach((value, field) => machine.store(ptr, field, value));
+    }
+  }
+}
+
+/**
+ * Create a block where every cell is the same instruction.
+ */
+export function fillBlock(cols: number, rows: number, cell: number[]): Block {
+  let cells = Array.from({ length: cols * rows }, () => [...cell]);
+  return { cols, rows, cells };
+}
+
+/**
+ * Mirror a block left to right (horizontal) or top to bottom (vertical).
+ */
+export function flipBlock(block: Block, axis: "horizontal" | "vertical") {
+  let { cols, rows } = block;
+  let horizontal = axis === "horizontal";
+  let cells: number[][] = [];
+
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) {
+      let si = horizontal ? cols - 1 - i : i;
+      let sj = horizontal ? j : rows - 1 - j;
+      let cell = block.cells[si + sj * cols];
+      cells.push(
+        remapCell(cell, (dir) =>
+          horizontal ? swap(dir, LEFT, RIGHT) : swap(dir, UP, DOWN),
+        ),
+      );
+    }
+  }
+
+  return { cols, rows, cells };
+}
+
+/**
+ * Rotate a block by a quarter turn. The rotated block has its rows and
+ * columns swapped.
+ */
+export function rotateBlock(block: Block, clockwise: boolean): Block {
+  let { cols, rows } = block;
+  let cells: number[][] = [];
+
+  // The new block is `rows` wide and `cols` tall
+  for (let j = 0; j < cols; j++) {
+    for (let i = 0; i < rows; i++) {
+      let si = clockwise ? j : cols - 1 - j;
+      let sj = clockwise ? rows - 1 - i : i;
+      let cell = block.cells[si + sj * cols];
+      cells.push(
+        remapCell(cell, (dir) =>
+          clockwise ? rotateClockwise(dir) : rotateCounterClockwise(dir),
+        ),
+      );
+    }
+  }
+
+  return { cols: rows, rows: cols, cells };
+}
+
+/**
+ * The direction bits are ordered clockwise (right, down, left, up) so that
+ * rotating them is a 4 bit rotation.
+ */
+function rotateClockwise(dirs: number): number {
+  return ((dirs << 1) | (dirs >> 3)) & 0b1111;
+}
+
+function rotateCounterClockwise(dirs: number): number {
+  return ((dirs >> 1) | (dirs << 3)) & 0b1111;
+}
+
+/**
+ * Swap a pair of direction bits.
+ */
+function swap(dirs: number, a: number, b: number): number {
+  let rest = dirs & ~(a | b);
+  return rest | (dirs & a ? b : 0) | (dirs & b ? a : 0);
+}
+
+/**
+ * Alignments as directions, so that they can be transformed with the same
+ * functions as direction bits.
+ */
+const ALIGN_DIRECTIONS: [align: number, dir: number][] = [
+  [ALIGN_ABOVE, UP],
+  [ALIGN_BELOW, DOWN],
+  [ALIGN_LEFT, LEFT],
+  [ALIGN_RIGHT, RIGHT],
+];
+
+/**
+ * Transform an instruction's direction bits (and a TXT instruction's
+ * alignment, so that labels stay on the same side of the instruction).
+ */
+function remapCell(cell: number[], remap: (dir: number) => number): number[] {
+  let copy = [...cell];
+  copy[INSTR_DIRS] = remap(cell[INSTR_DIRS]);
+
+  if (cell[INSTR_OPCODE] === TXT) {
+    let txt = decodeTxt(cell[INSTR_OPERAND], cell[INSTR_MODE]);
+    let dir = ALIGN_DIRECTIONS.find(([align]) => align === txt.align)?.[1];
+
+    if (dir !== undefined) {
+      let newDir = remap(dir);
+      txt.align = ALIGN_DIRECTIONS.find(([, dir]) => dir === newDir)![0];
+      let encoded = encodeTxt(txt);
+      copy[INSTR_OPERAND] = encoded.operand;
+      copy[INSTR_MODE] = encoded.mode;
+    }
+  }
+
+  return copy;
+}
@@ -108,7 +108,7 @@ export function draw(sprite: Sprite, x: number, y: number, color?: string) {
   ctx.drawImage(image, sx, sy, w, h, x | 0, y | 0, w, h);
 }
 
-let codepage = Array.from({ length: 122 }).map((_, code: number) => {
+let codepage = Array.from({ length: 127 }).map((_, code: number) => {
   if (code > 123) return code - 65; // {|}~
   if (code > 96) return code - 65; // abc...
   return code - 33;
@@ -1,5 +1,7 @@
 import {
+  alpha,
   clear,
+  ctx,
   draw,
   frame,
   label,
@@ -9,18 +11,72 @@ import {
   Sprite,
   write,
 } from "./canvas";
-import { Level, levels } from "./levels";
+import { assemble, disassemble, formatInstruction } from "./asm";
+import { Synth } from "./audio";
+import {
+  Block,
+  copyBlock,
+  EMPTY_CELL,
+  fillBlock,
+  flipBlock,
+  pasteBlock,
+  rotateBlock,
+} from "./block";
+import { dailySeed, generateLevel } from "./generator";
+import { diff, History } from "./history";
+import {
+  configureMachine,
+  formatLevel,
+  Level,
+  levels,
+  parseLevel,
+} from "./levels";
+import { createLobby, LOBBY_ID } from "./lobby";
+import { Manual } from "./manual";
+import { generatePattern } from "./music";
+import {
+  BLACK,
+  BLUE_1,
+  BLUE_2,
+  GRAY_1,
+  GRAY_2,
+  GREEN_1,
+  GREEN_2,
+  PURPLE_1,
+  PURPLE_2,
+  RED_1,
+  RED_2,
+  WHITE,
+  YELLOW_1,
+  YELLOW_2,
+} from "./palette";
+import { OPCODES, REGISTERS } from "./opcodes";
+import { BURST, Particles, PUFF, RIPPLE, sparks } from "./particles";
+import { Completion, getScore, Progress } from "./progress";
+import { encodeMoves } from "./replay";
 import * as sprites from "./sprites";
-import { cycle, runLengthDecode, runLengthEncode } from "./utils";
+import { Terminal } from "./terminal";
+import { bounce, easeOutQuad, Timeline } from "./tween";
+import { cycle, random, runLengthDecode, runLengthEncode } from "./utils";
 import {
   LOD,
   SAV,
   SWP,
   ADD,
   SUB,
+  MUL,
+  DIV,
+  MOD,
+  AND,
+  OR,
+  XOR,
+  SHL,
+  SHR,
+  CRY,
   TEQ,
   TLT,
   TGT,
+  TSC,
   SND,
   END,
   DBG,
@@ -30,6 +86,7 @@ import {
   DOWN,
   LEFT,
   RIGHT,
+  Direction,
   PROGRAM_COLS,
   PROGRAM_ROWS,
   INSTR_OPCODE,
@@ -49,7 +106,7 @@ import {
   PROGRAM_SIZE,
   INSTR_WIDTH,
   PRG,
-  jump,
+  move,
   fetch,
   dump,
   load,
@@ -60,47 +117,300 @@ import {
   RUNNING,
   TXT,
   PROGRAM_LENGTH,
+  machine,
+  Machine,
+  OP,
+  OUT,
+  OUTPUT_LENGTH,
+  decodeTxt,
+  encodeTxt,
+  TxtFields,
+  ALIGN_ABOVE,
+  ALIGN_BELOW,
+  ALIGN_LEFT,
+  ALIGN_RIGHT,
+  ALIGN_CENTER,
+  TRIGGER_ENTER,
+  TRIGGER_ALWAYS,
+  TRIGGER_ADJACENT,
+  TRIGGER_CYCLES,
+  TRIGGER_ONCE,
 } from "./vm";
 
 // RENDERING
 const CELL_SIZE_PIXELS = 19;
-const BLACK = "#000000";
-const WHITE = "white";
-const RED_1 = "#541828";
-const RED_2 = "#931c31";
-const GREEN_1 = "#18544c";
-const GREEN_2 = "#3e9379";
-const BLUE_1 = "#1d2040";
-const BLUE_2 = "#1e409f";
-const GRAY_1 = "#303030";
-const GRAY_2 = "#747474";
-const PURPLE_1 = "#541847";
-const PURPLE_2 = "#813e93";
-const YELLOW_1 = "#684817";
-const YELLOW_2 = "#d7a12c";
 
 const REGISTERS_ROW = 14;
 const STACK_ROW = 15;
+const OUTPUT_ROW = 16;
+
+// ANIMATION
+const MOVE_DURATION = 100;
+const BUMP_DURATION = 150;
+const BUMP_DISTANCE = 3;
+const DROP_DURATION = 250;
+const DROP_DELAY = 20;
+const DROP_HEIGHT = 12;
+const MAX_PARTICLES = 256;
+
+/**
+ * Key for the debugger's tween, so that each move finishes the last one.
+ */
+const DEBUGGER = "debugger";
+
+/**
+ * Saved progress for every level.
+ */
+let progress = new Progress(localStorage);
+
+/**
+ * The hub program, which has a halt for each level.
+ */
+let lobby = createLobby(levels, describeLevel);
 
 let currentLevel: Level =
   // Try to find the current level ID from localstorage
-  levels.find((level) => level.id === localStorage.currentLevelId) ??
+  findLevel(localStorage.currentLevelId) ??
   // Fall back to starting at the first level
   levels[0];
 
-function goToNextLevel() {
-  let nextLevel = levels[levels.indexOf(currentLevel) + 1] ?? levels[0];
+/**
+ * Describe a level (and the player's best result) for the lobby.
+ */
+function describeLevel(level: Level): string {
+  let best = progress.get(level.id)?.bestCycles;
+  let goals = level.cycles.join("/");
+  return `${level.id} ${goals}${best === undefined ? "" : ` best ${best}`}`;
+}
+
+function findLevel(id: string): Level | undefined {
+  return id === LOBBY_ID ? lobby : levels.find((level) => level.id === id);
+}
+
+function setLevel(level: Level) {
+  localStorage.currentLevelId = level.id;
+  currentLevel = level;
+  history.clear();
+  editHistory.clear();
+}
+
+/**
+ * Start a fresh attempt at a level.
+ */
+function openLevel(level: Level) {
+  setLevel(level);
+  init();
+  progress.recordAttempt(level.id);
+}
+
+function goToLobby() {
+  // Regenerate the lobby in case any of the levels (or bests) have changed
+  lobby = createLobby(levels, describeLevel);
+  setLevel(lobby);
+  init();
+}
+
+/**
+ * Create a complete level from the current level's metadata and the program
+ * in memory.
+ */
+function exportLevel(): Level {
+  let snapshot = dump();
+  snapshot[CYC] = 0; // reset cycles
+  snapshot[STA] = RUNNING; // reset halt state
+  let program = runLengthEncode([...snapshot]);
+  return { ...currentLevel, program };
+}
+
+/**
+ * Add a level (or replace the level with the same ID) and open it in the
+ * editor.
+ */
+function importLevel(level: Level) {
+  let index = levels.findIndex((other) => other.id === level.id);
+  if (index >= 0) levels[index] = level;
+  else levels.push(level);
+  lobby = createLobby(levels, describeLevel);
+  setLevel(level);
+  init();
+  editingMode = "grid";
+  editPointer = memory[IP];
+}
+
+/**
+ * Open a level by its ID from the terminal, optionally starting in edit mode.
+ * If no ID is given, go back to the current level as it was left, so that
+ * unsaved edits survive a trip to the terminal.
+ */
+function openFile(id: string | undefined, edit: boolean): string[] | void {
+  if (id) {
+    let level = findLevel(id);
+    if (!level) return [`no such file: ${id}`];
+    if (level === lobby) goToLobby();
+    else openLevel(level);
+  }
+
+  editingMode = edit ? "grid" : undefined;
+  editPointer = memory[IP];
+  screen = "debugger";
+}
+
+type Screen = "terminal" | "debugger" | "manual";
 
-  if (nextLevel) {
-    localStorage.currentLevelId = nextLevel.id;
-    currentLevel = nextLevel;
+/**
+ * Generate a level from a seed and open it for debugging.
+ */
+function openGenerated(seed: number, minCycles?: number): string[] | void {
+  if (!Number.isInteger(seed) || seed < 0) return [`invalid seed: ${seed}`];
+  if (minCycles !== undefined && !(minCycles > 0)) {
+    return [`invalid cycles: ${minCycles}`];
   }
+
+  // Generating can take a moment, so give the terminal a chance to draw first
+  setTimeout(() => {
+    try {
+      openLevel(generateLevel({ seed, minCycles }));
+      editingMode = undefined;
+      screen = "debugger";
+    } catch (error) {
+      terminal.print((error as Error).message);
+    }
+  }, 50);
+
+  return [`generating ${seed}...`];
+}
+
+/**
+ * Which screen is currently being shown.
+ */
+let screen: Screen = "terminal";
+
+/**
+ * The screen to go back to when the manual is closed.
+ */
+let manualReturnScreen: Screen = "terminal";
+
+/**
+ * The instruction set reference.
+ */
+let manual = new Manual();
+
+/**
+ * Open the manual on top of the current screen.
+ */
+function openManual() {
+  if (screen !== "manual") manualReturnScreen = screen;
+  screen = "manual";
 }
 
 /**
- * Snapshots of all previous memories.
+ * The terminal that the game starts at.
+ */
+let terminal = new Terminal({
+  ls: {
+    help: "list all programs",
+    run: () => [LOBBY_ID, ...levels.map((level) => level.id)],
+  },
+  zebug: {
+    help: "[file] debug a program, or resume the current one",
+    run: ([file]) => openFile(file, false),
+  },
+  zedit: {
+    help: "[file] edit a program, or resume the current one",
+    run: ([file]) => openFile(file, true),
+  },
+  // The generator (and the solver it needs) won't fit in the game's size
+  // budget, so it's only available in dev builds
+  ...(import.meta.env.DEV && {
+    zgen: {
+      help: "[seed] [cycles] debug a generated program",
+      run: ([seed, cycles]: string[]) =>
+        openGenerated(
+          seed ? Number(seed) : random(2 ** 31),
+          cycles ? Number(cycles) : undefined,
+        ),
+    },
+    daily: {
+      help: "debug today's generated program",
+      run: () => openGenerated(dailySeed()),
+    },
+  }),
+  man: {
+    help: "read the d13 manual",
+    run: () => openManual(),
+  },
+  // Editing level metadata is for building levels, so like the generator, it
+  // stays out of the size budget by only being in dev builds
+  ...(import.meta.env.DEV && {
+    labels: {
+      help: "list the labels in the current program",
+      run: () =>
+        currentLevel.labels.map((label, index) => `${index}: ${label}`),
+    },
+    label: {
+      help: "<index> [text] change a label in the current program",
+      run: ([index, ...words]: string[]) => {
+        let { labels } = currentLevel;
+        let i = Number(index);
+        if (currentLevel === lobby) return ["can't edit the lobby"];
+        if (!Number.isInteger(i) || i < 0 || i > labels.length) {
+          return [`label index must be between 0 and ${labels.length}`];
+        }
+        labels[i] = words.join(" ");
+      },
+    },
+    cycles: {
+      help: "<gold> <silver> <bronze> change the cycle targets",
+      run: (args: string[]) => {
+        let cycles = args.map(Number);
+        if (currentLevel === lobby) return ["can't edit the lobby"];
+        if (
+          cycles.length !== 3 ||
+          !cycles.every(Number.isInteger) ||
+          cycles[0] > cycles[1] ||
+          cycles[1] > cycles[2]
+        ) {
+          return ["expected gold <= silver <= bronze cycles"];
+        }
+        currentLevel.cycles = cycles as Level["cycles"];
+      },
+    },
+    rename: {
+      help: "<id> rename the current program",
+      run: ([id]: string[]) => {
+        if (currentLevel === lobby) return ["can't edit the lobby"];
+        if (!id) return ["expected a new id"];
+        if (findLevel(id)) return [`file already exists: ${id}`];
+        progress.rename(currentLevel.id, id);
+        currentLevel.id = id;
+        localStorage.currentLevelId = id;
+      },
+    },
+  }),
+});
+
+terminal.print(
+  "zebug: the d13 debugger",
+  "type 'help' for a list of commands",
+  `last opened: ${currentLevel.id}`,
+  "",
+);
+
+/**
+ * Changes made to memory by each command (and the moves that caused them),
+ * for undo and redo.
+ */
+let history = new History<number>();
+
+/**
+ * Changes made in the editor, which are undone separately from the moves.
+ */
+let editHistory = new History();
+
+/**
+ * The result of the most recent level completion.
  */
-let history: Uint8ClampedArray[] = [];
+let completion: Completion | undefined;
 
 /**
  * The position of the mouse cursor onscreen.
@@ -113,58 +423,232 @@ let cursor: { x: number; y: number } | undefined;
 let editPointer: number = 0;
 
 /**
- * Whether we're currently editing the grid or a specific cell or not editing
- * at all.
+ * Whether we're currently editing the grid, selecting a block of cells, or
+ * not editing at all.
  */
-let editingMode: "grid" | undefined;
+let editingMode: "grid" | "visual" | undefined;
 
 /**
- * Register where instructions are "yanked" to, during edit mode.
+ * The other corner of the block selection (the edit pointer is the first).
  */
-let editYankRegister = new Uint8Array(4);
+let visualAnchor: number = 0;
 
 /**
- * Opcode info lookup.
+ * Register where blocks of instructions are "yanked" to, during edit mode.
  */
-let OPCODES: {
-  [opcode: string]: { label: string } | undefined;
-} = {
-  [LOD]: { label: "LOD" },
-  [SAV]: { label: "MOV" },
-  [SWP]: { label: "SWP" },
-  [ADD]: { label: "ADD" },
-  [SUB]: { label: "SUB" },
-  [TEQ]: { label: "TEQ" },
-  [TLT]: { label: "TLT" },
-  [TGT]: { label: "TGT" },
-  [SND]: { label: "SND" },
-  [END]: { label: "END" },
-  [TXT]: { label: "TXT" },
-};
+let editYankRegister: Block = fillBlock(1, 1, EMPTY_CELL);
 
 /**
- * Register info lookup.
+ * The TXT instructions that the debugger has left since the level was last
+ * (re)started, for labels that should only be shown once.
  */
-let REGISTERS: {
-  [name: string]: { label: string } | undefined;
-} = {
-  [DAT]: { label: "DAT" },
-  [STK]: { label: "STK" },
-  [CYC]: { label: "CYC" },
-  [IP]: { label: "IP" },
-  [SP]: { label: "SP" },
-};
+let seenLabels = new Set<number>();
+
+/**
+ * The commands in the macro that is currently being recorded (if any).
+ */
+let macroRecording: number[] | undefined;
+
+/**
+ * The commands in the last recorded macro.
+ */
+let macro: number[] = [];
+
+/**
+ * Tweens that are stepped from the game loop.
+ */
+let timeline = new Timeline();
+
+/**
+ * How far (in pixels) the debugger is drawn from its cell while it's moving
+ * or bumping into something.
+ */
+let debuggerOffset = { x: 0, y: 0 };
+
+/**
+ * How far (in pixels) each instruction is drawn above its cell while it drops
+ * into place.
+ */
+let dropOffsets: number[] = [];
+
+/**
+ * Particle effects, drawn on top of the grid.
+ */
+let particles = new Particles(MAX_PARTICLES);
+
+/**
+ * The time of the last frame (in milliseconds).
+ */
+let lastFrameTime = 0;
+
+/**
+ * Music and sound effects.
+ */
+let synth = new Synth();
+
+/**
+ * The level that the music is currently playing for.
+ */
+let musicLevel: Level | undefined;
+
+/**
+ * Whether x-ray vision is turned on. X-ray vision shows NIL and NOP cells,
+ * each cell's direction bits, and which neighbouring cells the debugger can
+ * move into right now.
+ */
+let xray = false;
+
+/**
+ * Buttons that can be clicked or tapped, positioned on the grid.
+ */
+const BUTTONS = [
+  { x: 11, y: REGISTERS_ROW, label: "UND", action: () => undo() },
+  { x: 12, y: REGISTERS_ROW, label: "RST", action: () => restart() },
+];
+
+/**
+ * The minimum distance (in canvas pixels) that a pointer has to travel to
+ * count as a swipe rather than a tap.
+ */
+const SWIPE_DISTANCE = 10;
+
+/**
+ * Where the current pointer press started (if there is one).
+ */
+let pointerStart: { x: number; y: number } | undefined;
 
 /**
  * Get the instruction address under a given point.
  */
 function lookup(x: number, y: number): number | undefined {
-  // TODO: Handle OOB properly.
-  let gridX = (x / CELL_SIZE_PIXELS) | 0;
-  let gridY = (y / CELL_SIZE_PIXELS) | 0;
+  let gridX = Math.floor(x / CELL_SIZE_PIXELS);
+  let gridY = Math.floor(y / CELL_SIZE_PIXELS);
+  if (gridX < 0 || gridX >= PROGRAM_COLS) return;
+  if (gridY < 0 || gridY >= PROGRAM_ROWS) return;
   return gridX + gridY * PROGRAM_COLS;
 }
 
+/**
+ * Get the direction of a move from one instruction to a neighbouring one.
+ */
+function directionTo(from: number, to: number): Direction | undefined {
+  let dx = (to % PROGRAM_COLS) - (from % PROGRAM_COLS);
+  let dy = ((to / PROGRAM_COLS) | 0) - ((from / PROGRAM_COLS) | 0);
+  if (dy === 0 && dx === -1) return LEFT;
+  if (dy === 0 && dx === 1) return RIGHT;
+  if (dx === 0 && dy === -1) return UP;
+  if (dx === 0 && dy === 1) return DOWN;
+}
+
+/**
+ * Where to draw the pip for each direction bit within a cell, as
+ * `[direction, x, y, width, height]`.
+ */
+const DIRECTION_PIPS = [
+  [UP, 8, 1, 3, 1],
+  [DOWN, 8, 17, 3, 1],
+  [LEFT, 1, 8, 1, 3],
+  [RIGHT, 17, 8, 1, 3],
+];
+
+/**
+ * Whether the x-ray overlay should be drawn. Levels can disable x-ray vision
+ * for puzzles that rely on hidden cells, but it's always allowed in the
+ * editor.
+ */
+function isXrayVisible(): boolean {
+  return xray && (editingMode !== undefined || currentLevel.xray !== false);
+}
+
+/**
+ * Find out which neighbouring cells the debugger can move into right now, by
+ * trying each move on a copy of the machine.
+ */
+function getEnterableCells(): Map<number, boolean> {
+  let cells = new Map<number, boolean>();
+  if (memory[STA] === HALTED) return cells;
+
+  let ip = memory[IP];
+  let [x, y] = toGrid(ip);
+
+  // Moves off the edge of the grid (or onto the next row) aren't possible
+  let neighbours: [Direction, boolean, number][] = [
+    [LEFT, x > 0, ip - 1],
+    [RIGHT, x < PROGRAM_COLS - 1, ip + 1],
+    [UP, y > 0, ip - PROGRAM_COLS],
+    [DOWN, y < PROGRAM_ROWS - 1, ip + PROGRAM_COLS],
+  ];
+
+  for (let [direction, inside, ptr] of neighbours) {
+    if (!inside) continue;
+    let probe = new Machine(dump());
+    configureMachine(probe, currentLevel);
+    cells.set(ptr, probe.move(direction));
+  }
+
+  return cells;
+}
+
+/**
+ * Draw the x-ray overlay for a cell.
+ */
+function drawXray(x: number, y: number, enterable: Map<number, boolean>) {
+  let ptr = x + y * PROGRAM_COLS;
+  let opcode = fetch(ptr, INSTR_OPCODE);
+  let dirs = fetch(ptr, INSTR_DIRS);
+  let dx = x * CELL_SIZE_PIXELS;
+  let dy = y * CELL_SIZE_PIXELS;
+
+  if (opcode === NIL) {
+    alpha(0.3);
+    draw(sprites.cell, dx, dy, GRAY_1);
+    alpha(1);
+  } else {
+    if (opcode === NOP) write(dx + 4, dy + 4, "NOP", GRAY_1);
+
+    // Direction bits as pips on each edge (all gray when unrestricted)
+    for (let [bit, px, py, w, h] of DIRECTION_PIPS) {
+      let color = dirs === 0 ? GRAY_1 : dirs & bit ? PURPLE_2 : undefined;
+      if (color) rect(dx + px, dy + py, w, h, color);
+    }
+  }
+
+  let ok = enterable.get(ptr);
+
+  if (ok !== undefined) {
+    alpha(0.6);
+    draw(sprites.cell, dx, dy, ok ? GREEN_2 : RED_2);
+    alpha(1);
+  }
+}
+
+/**
+ * Convert an instruction's address into grid coordinates.
+ */
+function toGrid(ptr: number): [x: number, y: number] {
+  return [ptr % PROGRAM_COLS, (ptr / PROGRAM_COLS) | 0];
+}
+
+/**
+ * Keep an instruction's address within the program.
+ */
+function clampToGrid(ptr: number): number {
+  return Math.max(0, Math.min(PROGRAM_LENGTH - 1, ptr));
+}
+
+/**
+ * Get the rectangle between the visual anchor and the edit pointer.
+ */
+function getSelection() {
+  let [ax, ay] = toGrid(visualAnchor);
+  let [bx, by] = toGrid(editPointer);
+  let x = Math.min(ax, bx);
+  let y = Math.min(ay, by);
+  let cols = Math.abs(ax - bx) + 1;
+  let rows = Math.abs(ay - by) + 1;
+  return { x, y, cols, rows };
+}
+
 /**
  * Draw a cell on the grid.
  */
@@ -223,10 +707,10 @@ function drawInstruction(x: number, y: number) {
 
   let sprite = sprites.cell;
 
-  if (opcode >= TEQ && opcode <= TGT) {
+  if ((opcode >= TEQ && opcode <= TGT) || opcode === TSC) {
     color = exec(ptr) ? GREEN_1 : RED_1;
   } else if (opcode === END) {
-    color = BLUE_1;
+    color = machine.outputMatches() ? BLUE_1 : RED_1;
   }
 
   // NIL instructions are invisible (can't enter them)
@@ -234,14 +718,15 @@ function drawInstruction(x: number, y: number) {
 
   let opcodeInfo = OPCODES[opcode];
   let operandInfo = REGISTERS[operand];
-  let name = opcodeInfo?.label;
+  // NOPs are shown as empty cells
+  let name = opcode === NOP ? "" : opcodeInfo?.label;
   let value: string | number | undefined;
 
   if (opcode === END) {
     sprite = sprites.cell_halt;
   }
 
-  if (opcode === NOP || opcode === SND) {
+  if (opcode === NOP || opcode === SND || opcode === TSC) {
     value = "";
   } else if (opcode === END) {
     value = "0xD";
@@ -271,14 +756,9 @@ function drawInstruction(x: number, y: number) {
 function drawTxtInstruction(x: number, y: number) {
   let ptr = x + y * PROGRAM_COLS;
   let operand = fetch(ptr, INSTR_OPERAND);
-
-  // The first 4 bits are the index of the label.
-  let index = operand & 0b1111;
-  // TODO: Do the other label behaviours later
-  // The next 4 bits specify the label's alignment.
-  //let align = (operand >> 4) & 0b1111;
-  // The next 4 bits specify the label's trigger.
-  //let trigger = (operand >> 8) & 0b1111;
+  let mode = fetch(ptr, INSTR_MODE);
+  let txt = decodeTxt(operand, mode);
+  let index = txt.label;
 
   let text = currentLevel.labels[index];
   let missing = !text;
@@ -289,11 +769,48 @@ function drawTxtInstruction(x: number, y: number) {
   let serial = index.toString().padStart(3, "0");
   drawCell(x, y, sprites.cell, GRAY_1, "TXT", color, serial, altColor);
 
-  // If the debugger is on the label, show its text
-  if (memory[IP] === ptr) {
-    let dx = (x + 0.5) * CELL_SIZE_PIXELS;
-    let dy = (y - 0.5) * CELL_SIZE_PIXELS;
-    label(dx, dy, text, WHITE, missing ? RED_2 : BLUE_2, "center");
+  if (!isTxtVisible(ptr, txt)) return;
+
+  let cx = (x + 0.5) * CELL_SIZE_PIXELS;
+  let cy = y * CELL_SIZE_PIXELS + 6;
+  let [dx, dy, align] =
+    txt.align === ALIGN_BELOW
+      ? [cx, (y + 1) * CELL_SIZE_PIXELS + 2, "center" as const]
+      : txt.align === ALIGN_LEFT
+      ? [x * CELL_SIZE_PIXELS - 2, cy, "right" as const]
+      : txt.align === ALIGN_RIGHT
+      ? [(x + 1) * CELL_SIZE_PIXELS + 2, cy, "left" as const]
+      : txt.align === ALIGN_CENTER
+      ? [cx, cy, "center" as const]
+      : [cx, (y - 0.5) * CELL_SIZE_PIXELS, "center" as const];
+
+  label(dx, dy, text, WHITE, missing ? RED_2 : BLUE_2, align);
+}
+
+/**
+ * Check whether a TXT instruction's trigger means its text should be shown.
+ */
+function isTxtVisible(ptr: number, txt: TxtFields): boolean {
+  let ip = memory[IP];
+
+  switch (txt.trigger) {
+    case TRIGGER_ALWAYS:
+      return true;
+
+    case TRIGGER_ADJACENT: {
+      let dx = Math.abs((ip % PROGRAM_COLS) - (ptr % PROGRAM_COLS));
+      let dy = Math.abs(((ip / PROGRAM_COLS) | 0) - ((ptr / PROGRAM_COLS) | 0));
+      return dx + dy <= 1;
+    }
+
+    case TRIGGER_CYCLES:
+      return memory[CYC] >= txt.cycles;
+
+    case TRIGGER_ONCE:
+      return ip === ptr && !seenLabels.has(ptr);
+
+    default:
+      return ip === ptr;
   }
 }
 
@@ -302,21 +819,93 @@ function drawTxtInstruction(x: number, y: number) {
  */
 function drawStack() {
   let sprite = sprites.cell;
+  let expected = currentLevel.stack;
 
   for (let i = 0; i < STACK_LENGTH; i++) {
     let value = memory[STK + i];
-    let label = i === memory[SP] ? "STK" : i.toString().padStart(3);
+    let label = i.toString().padStart(3);
+    let color = PURPLE_1;
+
+    // Show the values that TSC instructions expect in place of the indices
+    if (expected && i < expected.length) {
+      label = expected[i].toString().padStart(3);
+      if (i < memory[SP] && value === expected[i]) color = GREEN_1;
+    }
+
+    if (i === memory[SP]) label = "STK";
+
     drawCell(
       i,
       STACK_ROW,
       sprite,
-      PURPLE_1,
+      color,
       label,
       PURPLE_1,
       value,
       i <= memory[SP] ? PURPLE_2 : PURPLE_1,
     );
   }
+
+  drawStackOverflow();
+}
+
+/**
+ * Highlight the instructions that the stack has overflowed into, and the
+ * instruction that the stack pointer is pointing at.
+ */
+function drawStackOverflow() {
+  let top = STK + memory[SP];
+  if (top < PRG) return;
+
+  // Every instruction with a byte below the stack pointer has been overwritten
+  let overwritten = Math.ceil((top - PRG) / INSTR_WIDTH);
+
+  for (let ptr = 0; ptr < overwritten && ptr < PROGRAM_LENGTH; ptr++) {
+    let x = ptr % PROGRAM_COLS;
+    let y = (ptr / PROGRAM_COLS) | 0;
+    drawCell(x, y, sprites.cell, PURPLE_1, "", "", undefined, "");
+  }
+
+  // Flash the instruction that the next push will write into
+  let ptr = ((top - PRG) / INSTR_WIDTH) | 0;
+  let highlight = performance.now() % 800 > 300;
+
+  if (highlight && ptr < PROGRAM_LENGTH) {
+    let x = ptr % PROGRAM_COLS;
+    let y = (ptr / PROGRAM_COLS) | 0;
+    drawCell(x, y, sprites.cell, PURPLE_2, "", "", undefined, "");
+  }
+}
+
+/**
+ * Draw the values that have been sent to the output port, alongside the
+ * values that the level expects.
+ */
+function drawOutput() {
+  let sprite = sprites.cell;
+  let expected = currentLevel.output ?? [];
+
+  for (let i = 0; i < OUTPUT_LENGTH; i++) {
+    let sent = i < memory[OP];
+    let value: number | undefined = sent ? memory[OUT + i] : expected[i];
+    let color = GRAY_1;
+
+    if (sent && expected.length) {
+      color = value === expected[i] ? GREEN_1 : RED_1;
+    }
+
+    let label = i === memory[OP] ? "OUT" : i.toString().padStart(3);
+    drawCell(
+      i,
+      OUTPUT_ROW,
+      sprite,
+      color,
+      label,
+      GRAY_2,
+      value,
+      sent ? WHITE : GRAY_2,
+    );
+  }
 }
 
 /**
@@ -330,6 +919,7 @@ function drawRegisters() {
   drawCell(2, y, sprite, GRAY_1, "IP", GRAY_2, memory[IP], WHITE);
   drawCell(3, y, sprite, GRAY_1, "SP", GRAY_2, memory[SP], WHITE);
   drawCell(4, y, sprite, GRAY_1, "DBG", GRAY_2, memory[DBG], WHITE);
+  drawCell(5, y, sprite, GRAY_1, "CRY", GRAY_2, memory[CRY], WHITE);
 }
 
 /**
@@ -343,8 +933,8 @@ function drawDebugger() {
   let ip = memory[IP];
   let x = ip % PROGRAM_COLS;
   let y = (ip / PROGRAM_COLS) | 0;
-  let dx = x * CELL_SIZE_PIXELS;
-  let dy = y * CELL_SIZE_PIXELS;
+  let dx = x * CELL_SIZE_PIXELS + debuggerOffset.x;
+  let dy = y * CELL_SIZE_PIXELS + debuggerOffset.y;
   let hop = (t / 250) % 2 | 0;
   let sprite = hop ? sprites.pointer : sprites.pointer_idle;
   let value = memory[DBG].toString().padStart(3);
@@ -366,12 +956,33 @@ function drawEditorInfo() {
 
   // Raw instruction hex values for debugging
   let text = `${hex(opcode)} ${hex(operand)} ${hex(mode)} ${hex(dirs)}`;
-  let y = c.height - 50;
+  // The empty row between the program and the registers
+  let y = (REGISTERS_ROW - 1) * CELL_SIZE_PIXELS;
 
   // Address
   label(2, y, hex(editPointer), GRAY_2, GRAY_1);
   // Raw instruction
   label(24, y, text, GRAY_2, GRAY_1);
+  // Assembly (the formatter is only in dev builds, for the size budget)
+  if (import.meta.env.DEV) {
+    let asm = formatInstruction(opcode, operand, mode, dirs);
+    label(2, y + 9, asm, WHITE, GRAY_1);
+  }
+
+  // Highlight the selected block in visual mode
+  if (import.meta.env.DEV && editingMode === "visual") {
+    let selection = getSelection();
+    let { cols, rows } = selection;
+    label(c.width - 2, y, `VISUAL ${cols}x${rows}`, WHITE, BLUE_1, "right");
+    alpha(0.5);
+    for (let j = 0; j < rows; j++) {
+      for (let i = 0; i < cols; i++) {
+        let x = selection.x + i;
+        drawCell(x, selection.y + j, sprites.cell, BLUE_2, "", "", "", "");
+      }
+    }
+    alpha(1);
+  }
 
   // Add a flashing border to the instruction we're editing
   {
@@ -385,11 +996,37 @@ function drawEditorInfo() {
   }
 }
 
-function getScore(level: Level, cycles: number): 0 | 1 | 2 | 3 {
-  if (cycles <= level.cycles[0]) return 0;
-  if (cycles <= level.cycles[1]) return 1;
-  if (cycles <= level.cycles[2]) return 2;
-  return 3;
+/**
+ * Show an indicator whilst a macro is being recorded.
+ */
+function drawMacroInfo() {
+  if (!macroRecording || editingMode) return;
+  let highlight = performance.now() % 800 > 300;
+  let text = `@ REC ${macroRecording.length}`;
+  let x = BUTTONS[0].x * CELL_SIZE_PIXELS - 2;
+  let y = REGISTERS_ROW * CELL_SIZE_PIXELS + 6;
+  label(x, y, text, WHITE, highlight ? RED_2 : RED_1, "right");
+}
+
+/**
+ * Draw the onscreen buttons for pointer controls.
+ */
+function drawButtons() {
+  if (editingMode) return;
+
+  for (let button of BUTTONS) {
+    let sprite = sprites.cell_register;
+    drawCell(
+      button.x,
+      button.y,
+      sprite,
+      GRAY_1,
+      button.label,
+      GRAY_2,
+      "",
+      WHITE,
+    );
+  }
 }
 
 const statuses = [
@@ -401,7 +1038,7 @@ const statuses = [
 
 function drawDebugStats() {
   let w = 200;
-  let h = 80;
+  let h = 98;
   let x = (c.width / 2 - w / 2) | 0;
   let y = (c.height / 2 - h / 2) | 0;
   let shadow = 10;
@@ -426,26 +1063,57 @@ function drawDebugStats() {
   write(tx, ty, statusText, statusColor);
   ty += LINE_HEIGHT * 2;
   write(tx, ty, `Halt found in ${memory[CYC]} cycles`);
+  ty += LINE_HEIGHT;
+
+  let previousBest = completion?.previous?.bestCycles;
+
+  if (completion?.newBest) {
+    let text = previousBest === undefined ? "" : ` (was ${previousBest})`;
+    write(tx, ty, `New best!${text}`, GREEN_2);
+  } else if (previousBest !== undefined) {
+    write(tx, ty, `Best is ${previousBest} cycles`, GRAY_2);
+  }
+
   ty += LINE_HEIGHT * 3;
   write(tx, ty, `Press enter to continue`, GRAY_2);
   ty += LINE_HEIGHT * 2;
   write(tx, ty, `Press R to restart`, GRAY_1);
+  ty += LINE_HEIGHT * 2;
+  write(tx, ty, `Press C to copy solution`, GRAY_1);
 }
 
 function render() {
+  if (screen === "terminal" || screen === "manual") {
+    if (screen === "terminal") terminal.draw();
+    else manual.draw();
+    if (cursor) draw(sprites.cursor, cursor.x, cursor.y);
+    return;
+  }
+
   clear();
 
+  let enterable = isXrayVisible() ? getEnterableCells() : undefined;
+
   // Instructions
   for (let y = 0; y < PROGRAM_ROWS; y++) {
     for (let x = 0; x < PROGRAM_COLS; x++) {
+      let drop = dropOffsets[x + y * PROGRAM_COLS] | 0;
+      ctx.save();
+      ctx.translate(0, -drop);
       drawInstruction(x, y);
+      if (enterable) drawXray(x, y, enterable);
+      ctx.restore();
     }
   }
 
   drawStack();
+  drawOutput();
   drawRegisters();
   drawDebugger();
+  particles.draw();
   drawEditorInfo();
+  drawMacroInfo();
+  drawButtons();
 
   // Cursor
   if (cursor) {
@@ -458,28 +1126,159 @@ function render() {
 }
 
 function undo() {
-  if (history.length) {
-    load(history.pop()!);
+  timeline.finish(DEBUGGER);
+  if (history.undo(memory)) synth.play("undo");
+}
+
+function redo() {
+  timeline.finish(DEBUGGER);
+  history.redo(memory);
+}
+
+/**
+ * Slide the debugger from the instruction it just left to the one it's on.
+ */
+function animateMove(from: number) {
+  let to = memory[IP];
+  let cols = (from % PROGRAM_COLS) - (to % PROGRAM_COLS);
+  let rows = ((from / PROGRAM_COLS) | 0) - ((to / PROGRAM_COLS) | 0);
+
+  timeline.play(
+    {
+      duration: MOVE_DURATION,
+      easing: easeOutQuad,
+      update(t) {
+        debuggerOffset.x = cols * CELL_SIZE_PIXELS * (1 - t);
+        debuggerOffset.y = rows * CELL_SIZE_PIXELS * (1 - t);
+      },
+    },
+    DEBUGGER,
+  );
+}
+
+/**
+ * Nudge the debugger towards an instruction that it couldn't move into.
+ */
+function animateBump(direction: number) {
+  let cols = direction === LEFT ? -1 : direction === RIGHT ? 1 : 0;
+  let rows = direction === UP ? -1 : direction === DOWN ? 1 : 0;
+
+  timeline.play(
+    {
+      duration: BUMP_DURATION,
+      easing: bounce,
+      update(t) {
+        debuggerOffset.x = cols * BUMP_DISTANCE * t;
+        debuggerOffset.y = rows * BUMP_DISTANCE * t;
+      },
+    },
+    DEBUGGER,
+  );
+}
+
+/**
+ * Emit particles for the outcome of a move.
+ */
+function emitParticles(command: number, ok: boolean) {
+  let ip = memory[IP];
+  let x = ((ip % PROGRAM_COLS) + 0.5) * CELL_SIZE_PIXELS;
+  let y = (((ip / PROGRAM_COLS) | 0) + 0.5) * CELL_SIZE_PIXELS;
+
+  if (!ok) {
+    // Puff on the edge that the debugger bumped into
+    let edge = CELL_SIZE_PIXELS / 2;
+    if (command === LEFT) x -= edge;
+    if (command === RIGHT) x += edge;
+    if (command === UP) y -= edge;
+    if (command === DOWN) y += edge;
+    return particles.emit(PUFF, x, y);
+  }
+
+  let opcode = fetch(ip, INSTR_OPCODE);
+  let operand = fetch(ip, INSTR_OPERAND);
+
+  if (opcode === SAV || opcode === SWP) {
+    if (operand === DAT) particles.emit(sparks(YELLOW_2), x, y);
+    if (operand === STK) particles.emit(sparks(PURPLE_2), x, y);
+  } else if ((opcode >= TEQ && opcode <= TGT) || opcode === TSC) {
+    particles.emit(RIPPLE, x, y);
+  } else if (opcode === END) {
+    particles.emit(BURST, x, y);
+  }
+}
+
+/**
+ * Play the sound effect for the outcome of a move.
+ */
+function playSound(ok: boolean) {
+  let opcode = fetch(memory[IP], INSTR_OPCODE);
+  if (!ok) synth.play("blocked");
+  else if (memory[STA] === HALTED) synth.play("halt");
+  else if ((opcode >= TEQ && opcode <= TGT) || opcode === TSC)
+    synth.play("pass");
+  else synth.play("move");
+}
+
+/**
+ * Start the music for the current level, unless it's already playing. Levels
+ * without a seed get a random one.
+ */
+function playMusic() {
+  if (musicLevel === currentLevel) return;
+  musicLevel = currentLevel;
+  synth.playMusic(generatePattern(currentLevel.seed ?? random(2 ** 32)));
+}
+
+/**
+ * Drop each instruction into place, one diagonal at a time.
+ */
+function animateDropIn() {
+  for (let y = 0; y < PROGRAM_ROWS; y++) {
+    for (let x = 0; x < PROGRAM_COLS; x++) {
+      let ptr = x + y * PROGRAM_COLS;
+
+      timeline.play({
+        duration: DROP_DURATION,
+        delay: (x + y) * DROP_DELAY,
+        easing: easeOutQuad,
+        update(t) {
+          dropOffsets[ptr] = DROP_HEIGHT * (1 - t);
+        },
+      });
+    }
   }
 }
 
-function move(
-  direction: typeof UP | typeof DOWN | typeof LEFT | typeof RIGHT,
-): boolean {
-  // Direction checks are too awkward with random programs
-  let dirs = fetch(memory[IP], INSTR_DIRS);
-  if (dirs > 0 && (dirs & direction) === 0) return false;
+/**
+ * Restart the current level (as an undoable command).
+ */
+function restart() {
+  let snapshot = dump();
+  init();
+  // The program was reloaded, so earlier edits no longer apply
+  editHistory.clear();
+  history.record(diff(snapshot, memory));
+  if (currentLevel !== lobby) progress.recordAttempt(currentLevel.id);
+}
+
+/**
+ * Get the moves that were made since the level was last (re)started.
+ */
+function currentMoves(): number[] {
+  let moves: number[] = [];
 
-  if (direction === LEFT) return jump(memory[IP] - 1);
-  if (direction === UP) return jump(memory[IP] - PROGRAM_COLS);
-  if (direction === DOWN) return jump(memory[IP] + PROGRAM_COLS);
-  if (direction === RIGHT) return jump(memory[IP] + 1);
+  for (let move of history.done()) {
+    // Commands without a move are restarts
+    if (move === undefined) moves = [];
+    else moves.push(move);
+  }
 
-  return false;
+  return moves;
 }
 
-function dispatch(command: number) {
+function dispatch(command: number): boolean {
   let snapshot = dump();
+  let from = memory[IP];
   let ok = false;
 
   if (command === LEFT) ok = move(LEFT);
@@ -487,19 +1286,81 @@ function dispatch(command: number) {
   if (command === DOWN) ok = move(DOWN);
   if (command === RIGHT) ok = move(RIGHT);
 
+  if (ok) animateMove(from);
+  else animateBump(command);
+  emitParticles(command, ok);
+  playSound(ok);
+
   if (ok) {
-    history.push(snapshot);
     memory[CYC] += 1;
+    history.record(diff(snapshot, memory), command);
+    macroRecording?.push(command);
+    if (fetch(from, INSTR_OPCODE) === TXT) seenLabels.add(from);
+  }
+
+  if (ok && memory[STA] === HALTED) {
+    if (currentLevel === lobby) {
+      // Halting in the lobby opens the level whose index is in DBG
+      let level = levels[memory[DBG]];
+      if (level) openLevel(level);
+      else goToLobby();
+    } else if (editHistory.done().length > 0) {
+      // Edited programs aren't the level any more, so they can't set bests
+      completion = undefined;
+    } else {
+      completion = progress.recordCompletion(
+        currentLevel,
+        memory[CYC],
+        currentMoves(),
+      );
+    }
+  }
+
+  return ok;
+}
+
+/**
+ * Start recording a macro, or stop recording if we already were.
+ */
+function toggleMacroRecording() {
+  if (macroRecording) {
+    macro = macroRecording;
+    macroRecording = undefined;
+  } else {
+    macroRecording = [];
+  }
+}
+
+/**
+ * Replay the last macro, one undoable command at a time, until a command
+ * gets blocked or the program halts (or the lobby opens another level).
+ */
+function playMacro() {
+  let level = currentLevel;
+
+  for (let command of macro) {
+    if (memory[STA] === HALTED || currentLevel !== level) break;
+    if (!dispatch(command)) break;
   }
 }
 
 function init() {
   let program = runLengthDecode(currentLevel.program);
   load(program);
+  configureMachine(machine, currentLevel);
+  seenLabels.clear();
+  timeline.finishAll();
+  animateDropIn();
+  playMusic();
 }
 
 function loop() {
   requestAnimationFrame(loop);
+  let now = performance.now();
+  let dt = Math.min(now - lastFrameTime, 100) / 1000;
+  lastFrameTime = now;
+  timeline.update(now);
+  particles.update(dt);
   render();
 }
 
@@ -513,7 +1374,10 @@ onresize = () => {
   resize();
 };
 
-onpointermove = (event) => {
+/**
+ * Convert a pointer event's position into canvas pixels.
+ */
+function toCanvasPoint(event: PointerEvent) {
   let bounds = c.getBoundingClientRect();
   let canvasX = event.clientX - bounds.x;
   let canvasY = event.clientY - bounds.y;
@@ -521,38 +1385,143 @@ onpointermove = (event) => {
   let scaleY = c.height / bounds.height;
   let x = (canvasX * scaleX) | 0;
   let y = (canvasY * scaleY) | 0;
-  cursor = { x, y };
+  return { x, y };
+}
+
+/**
+ * Handle a click or tap at a point on the canvas.
+ */
+function tap(x: number, y: number) {
+  let ptr = lookup(x, y);
+
+  if (editingMode) {
+    if (ptr !== undefined) editPointer = ptr;
+    return;
+  }
+
+  let gridX = Math.floor(x / CELL_SIZE_PIXELS);
+  let gridY = Math.floor(y / CELL_SIZE_PIXELS);
+  let button = BUTTONS.find(
+    (button) => button.x === gridX && button.y === gridY,
+  );
+
+  if (button) {
+    button.action();
+  } else if (memory[STA] === HALTED) {
+    // Tap anywhere to continue after completion
+    goToLobby();
+  } else if (ptr !== undefined) {
+    // Tap a neighbouring instruction to move there
+    let direction = directionTo(memory[IP], ptr);
+    if (direction) dispatch(direction);
+  }
+}
+
+/**
+ * Handle a swipe in a direction on the canvas.
+ */
+function swipe(dx: number, dy: number) {
+  if (editingMode || memory[STA] === HALTED) return;
+  if (Math.abs(dx) > Math.abs(dy)) dispatch(dx < 0 ? LEFT : RIGHT);
+  else dispatch(dy < 0 ? UP : DOWN);
+}
+
+// Paste a level (as JSON or D13 assembly) into the editor to import it.
+// Importing is for building levels, and the assembler and level checks don't
+// fit in the game's size budget, so it only works in dev builds.
+document.onpaste = (event) => {
+  if (!import.meta.env.DEV) return;
+  if (screen !== "debugger" || !editingMode) return;
+  let text = event.clipboardData?.getData("text") ?? "";
+
+  try {
+    let json = text.trim().startsWith("{");
+    importLevel(json ? parseLevel(text) : assemble(text));
+    console.log(`📋 Imported level from clipboard`);
+  } catch (error) {
+    console.error(`Couldn't import level: ${error}`);
+  }
+};
+
+onpointermove = (event) => {
+  cursor = toCanvasPoint(event);
+};
+
+onpointerdown = (event) => {
+  synth.unlock();
+  pointerStart = toCanvasPoint(event);
+};
+
+onpointerup = (event) => {
+  if (!pointerStart || screen === "terminal") return;
+  let { x, y } = toCanvasPoint(event);
+
+  // Tap either side of the manual to turn the page
+  if (screen === "manual") {
+    pointerStart = undefined;
+    return manual.turn(x < c.width / 2 ? -1 : 1);
+  }
+
+  let dx = x - pointerStart.x;
+  let dy = y - pointerStart.y;
+  pointerStart = undefined;
+
+  if (Math.hypot(dx, dy) >= SWIPE_DISTANCE) {
+    swipe(dx, dy);
+  } else {
+    tap(x, y);
+  }
 };
 
 onkeydown = (event) => {
-  let { key } = event;
+  let { key, ctrlKey: ctrl } = event;
+  synth.unlock();
+
+  // Forward all events to the terminal whilst it's open
+  if (screen === "terminal") {
+    return terminal.keydown(event);
+  }
+
+  // Escape closes the manual, and all other events turn its pages
+  if (screen === "manual") {
+    if (key === "Escape" || key === "q") screen = manualReturnScreen;
+    else manual.keydown(event);
+    return;
+  }
 
-  // r to restart the current level
-  if (key === "r") {
-    init();
+  // r to restart the current level (but not in the middle of an edit)
+  if (key === "r" && !ctrl && !editingMode) {
+    restart();
   }
 
   // Check whether we've finished the level
   if (memory[STA] === HALTED) {
-    // Enter to advance to the next level after completion
+    // Enter to go back to the lobby after completion
     if (key === "Enter") {
-      goToNextLevel();
-      init();
+      goToLobby();
     } else {
+      // c to copy the solution as a replay string
+      if (key === "c") {
+        let solution = encodeMoves(currentMoves());
+        navigator.clipboard.writeText(solution);
+        console.log(`📋 Solution copied to clipboard: ${solution}`);
+      }
+
       return;
     }
   }
 
-  // Export the current program to the console
-  if (key === "e") {
-    let snapshot = dump();
-    snapshot[CYC] = 0; // reset cycles
-    snapshot[STA] = RUNNING; // reset halt state
-    navigator.clipboard.writeText(
-      JSON.stringify(runLengthEncode([...snapshot])),
-    );
-    console.groupCollapsed("📋 Program copied to clipboard!");
-    console.log(snapshot);
+  // Export the current level as JSON (E), or as TypeScript and assembly in
+  // dev builds (e)
+  if (key === "e" || key === "E") {
+    let level = exportLevel();
+    let dev = import.meta.env.DEV && key === "e";
+    let text = JSON.stringify(level);
+    if (dev) text = formatLevel(level);
+    navigator.clipboard.writeText(text);
+    console.groupCollapsed("📋 Level copied to clipboard!");
+    console.log(text);
+    if (dev) console.log(disassemble(level));
     console.groupEnd();
   }
 
@@ -561,6 +1530,21 @@ onkeydown = (event) => {
     return editor(event);
   }
 
+  // escape to go back to the terminal
+  if (key === "Escape") {
+    screen = "terminal";
+  }
+
+  // ? to open the manual
+  if (key === "?") {
+    openManual();
+  }
+
+  // x to toggle x-ray vision
+  if (key === "x") {
+    xray = !xray;
+  }
+
   // i to enter grid editing mode
   if (key === "i") {
     editingMode = "grid";
@@ -572,17 +1556,42 @@ onkeydown = (event) => {
   if (key === "k" || key === "ArrowUp") dispatch(UP);
   if (key === "l" || key === "ArrowRight") dispatch(RIGHT);
   if (key === "Backspace" || key === "z") undo();
+  if (key === "Z" || (ctrl && key === "y")) redo();
+
+  // @ to start/stop recording a macro, and space to replay it
+  if (key === "@") toggleMacroRecording();
+  if (key === " " && !macroRecording) playMacro();
 
   // Jump directly to cursor (useful for debugging)
-  if (key === " " && cursor) {
+  if (key === "g" && cursor) {
     memory[IP] = lookup(cursor.x, cursor.y) ?? memory[IP];
   }
 };
 
 /**
- * Logic for editing a D13 program for building levels.
+ * Logic for editing a D13 program for building levels. Every change to
+ * memory is recorded, so that it can be undone with u and redone with ctrl-r.
  */
 export function editor(event: KeyboardEvent) {
+  let { key, ctrlKey: ctrl } = event;
+
+  if (key === "u" && !ctrl) {
+    editHistory.undo(memory);
+  } else if (key === "r" && ctrl) {
+    event.preventDefault();
+    editHistory.redo(memory);
+  } else {
+    let snapshot = dump();
+    if (import.meta.env.DEV && editingMode === "visual") visualEditor(event);
+    else gridEditor(event);
+    editHistory.record(diff(snapshot, memory));
+  }
+}
+
+/**
+ * Logic for editing individual instructions in grid mode.
+ */
+function gridEditor(event: KeyboardEvent) {
   // Read metadata from the event
   let { key, ctrlKey: ctrl, shiftKey: shift } = event;
 
@@ -592,7 +1601,7 @@ export function editor(event: KeyboardEvent) {
   let mode = fetch(editPointer, INSTR_MODE);
   let dirs = fetch(editPointer, INSTR_DIRS);
 
-  // shift+x to reset the memory
+  // shift+x to reset the memory (u to undo)
   if (key === "X") reset();
 
   // shift+direction toggles directions in all modes (prevent accidentally
@@ -606,26 +1615,25 @@ export function editor(event: KeyboardEvent) {
 
   // y or x to yank the current instruction
   if (key === "y" || (key === "x" && !ctrl)) {
-    editYankRegister[INSTR_OPCODE] = opcode;
-    editYankRegister[INSTR_OPERAND] = operand;
-    editYankRegister[INSTR_MODE] = mode;
-    editYankRegister[INSTR_DIRS] = dirs;
+    editYankRegister = fillBlock(1, 1, [opcode, operand, mode, dirs]);
 
     // If cutting, then also reset the current instruction
     if (key === "x") {
-      store(editPointer, INSTR_OPCODE, NIL);
-      store(editPointer, INSTR_OPERAND, 0);
-      store(editPointer, INSTR_MODE, IMMEDIATE_MODE);
-      store(editPointer, INSTR_DIRS, 0);
+      pasteBlock(machine, fillBlock(1, 1, EMPTY_CELL), ...toGrid(editPointer));
     }
   }
 
-  // p to paste the yanked instruction
-  if (key === "p") {
-    store(editPointer, INSTR_OPCODE, editYankRegister[INSTR_OPCODE]);
-    store(editPointer, INSTR_OPERAND, editYankRegister[INSTR_OPERAND]);
-    store(editPointer, INSTR_MODE, editYankRegister[INSTR_MODE]);
-    store(editPointer, INSTR_DIRS, editYankRegister[INSTR_DIRS]);
+  // p to paste the yanked instruction(s) with the top left at the pointer
+  if (key === "p" && !ctrl) {
+    pasteBlock(machine, editYankRegister, ...toGrid(editPointer));
+  }
+
+  // v to start selecting a block. Block editing is for building levels, and
+  // doesn't fit in the game's size budget, so it's only in dev builds.
+  if (key === "v" && import.meta.env.DEV) {
+    editingMode = "visual";
+    visualAnchor = editPointer;
+    return;
   }
 
   // @ to move the debugger here
@@ -660,14 +1668,77 @@ export function editor(event: KeyboardEvent) {
   // ctrl-p and ctrl+n change opcode
   if (ctrl && (key === "p" || key === "n")) {
     let step = key === "p" ? -1 : 1;
-    let codes = [NOP, LOD, SAV, SWP, ADD, SUB, TEQ, TLT, TGT, SND, TXT, END];
+    let codes = [
+      NOP,
+      LOD,
+      SAV,
+      SWP,
+      ADD,
+      SUB,
+      MUL,
+      DIV,
+      MOD,
+      AND,
+      OR,
+      XOR,
+      SHL,
+      SHR,
+      TEQ,
+      TLT,
+      TGT,
+      TSC,
+      SND,
+      TXT,
+      END,
+    ];
     let code = cycle(codes, opcode, step);
     store(editPointer, INSTR_OPCODE, code);
   }
 
+  // TXT instructions pack their label, alignment and trigger into the operand
+  // and mode, so they have their own controls.
+  if (opcode === TXT) {
+    let txt = decodeTxt(operand, mode);
+    let aligns = [
+      ALIGN_ABOVE,
+      ALIGN_BELOW,
+      ALIGN_LEFT,
+      ALIGN_RIGHT,
+      ALIGN_CENTER,
+    ];
+    let triggers = [
+      TRIGGER_ENTER,
+      TRIGGER_ALWAYS,
+      TRIGGER_ADJACENT,
+      TRIGGER_CYCLES,
+      TRIGGER_ONCE,
+    ];
+
+    // ctrl-a and ctrl-x change the label index
+    if (ctrl && key === "a") txt.label = (txt.label + 1) & 0b1111;
+    if (ctrl && key === "x") txt.label = (txt.label - 1) & 0b1111;
+    // a and t cycle through alignments and triggers
+    if (key === "a") txt.align = cycle(aligns, txt.align);
+    if (key === "t") txt.trigger = cycle(triggers, txt.trigger);
+    // [ and ] change the number of cycles for the cycles trigger
+    if (key === "[") txt.cycles = Math.max(0, txt.cycles - 1);
+    if (key === "]") txt.cycles = Math.min(0b11111, txt.cycles + 1);
+
+    let encoded = encodeTxt(txt);
+    store(editPointer, INSTR_OPERAND, encoded.operand);
+    store(editPointer, INSTR_MODE, encoded.mode);
+    return;
+  }
+
   // Prevent accidentally editing operands/modes for commands that don't
   // support them.
-  if (opcode === NIL || opcode === NOP || opcode === SWP || opcode === SND)
+  if (
+    opcode === NIL ||
+    opcode === NOP ||
+    opcode === SWP ||
+    opcode === SND ||
+    opcode === TSC
+  )
     return;
 
   // ctrl-a and ctrl-x change operand in immediate mode
@@ -682,7 +1753,7 @@ export function editor(event: KeyboardEvent) {
   if (mode === ADDRESS_MODE) {
     if ((ctrl && key === "a") || (ctrl && key === "x")) {
       let step = key === "a" ? -1 : 1;
-      let addr = cycle([DAT, STK, CYC, IP, SP], operand, step);
+      let addr = cycle([DAT, STK, CYC, CRY, IP, SP], operand, step);
       store(editPointer, INSTR_OPERAND, addr);
     }
   }
@@ -696,4 +1767,61 @@ export function editor(event: KeyboardEvent) {
   }
 }
 
+/**
+ * Logic for editing a rectangular block of instructions in visual mode.
+ */
+function visualEditor(event: KeyboardEvent) {
+  let { key } = event;
+  let { x, y, cols, rows } = getSelection();
+
+  // hjkl move the editing cursor (which is one corner of the selection)
+  if (key === "h") editPointer -= 1;
+  if (key === "l") editPointer += 1;
+  if (key === "j") editPointer += PROGRAM_COLS;
+  if (key === "k") editPointer -= PROGRAM_COLS;
+  editPointer = clampToGrid(editPointer);
+
+  // escape or v to go back to grid editing
+  if (key === "Escape" || key === "v") editingMode = "grid";
+
+  // y to yank the block, and x or d to cut it
+  if (key === "y" || key === "x" || key === "d") {
+    editYankRegister = copyBlock(machine, x, y, cols, rows);
+    if (key !== "y")
+      pasteBlock(machine, fillBlock(cols, rows, EMPTY_CELL), x, y);
+    editingMode = "grid";
+  }
+
+  // p to paste the yanked block at the top left of the selection
+  if (key === "p") {
+    pasteBlock(machine, editYankRegister, x, y);
+    editingMode = "grid";
+  }
+
+  // f to fill the selection with the first yanked instruction
+  if (key === "f") {
+    let cell = editYankRegister.cells[0];
+    pasteBlock(machine, fillBlock(cols, rows, cell), x, y);
+  }
+
+  // | and - to flip the block horizontally and vertically
+  if (key === "|" || key === "-") {
+    let block = copyBlock(machine, x, y, cols, rows);
+    let flipped = flipBlock(block, key === "|" ? "horizontal" : "vertical");
+    pasteBlock(machine, flipped, x, y);
+  }
+
+  // > and < to rotate the block clockwise and counter-clockwise around its
+  // top left corner
+  if (key === ">" || key === "<") {
+    let block = rotateBlock(copyBlock(machine, x, y, cols, rows), key === ">");
+    pasteBlock(machine, fillBlock(cols, rows, EMPTY_CELL), x, y);
+    pasteBlock(machine, block, x, y);
+    visualAnchor = x + y * PROGRAM_COLS;
+    editPointer = clampToGrid(
+      x + block.cols - 1 + (y + block.rows - 1) * PROGRAM_COLS,
+    );
+  }
+}
+
 start();
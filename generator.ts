@@ -0,0 +1,258 @@
+import { Level } from "./levels";
+import { solve } from "./solver";
+import { runLengthEncode, seededRandom } from "./utils";
+import {
+  ADD,
+  ADDRESS_MODE,
+  AND,
+  DIV,
+  MOD,
+  MUL,
+  OR,
+  SHL,
+  SHR,
+  XOR,
+  DAT,
+  Direction,
+  DOWN,
+  END,
+  IMMEDIATE_MODE,
+  INSTR_DIRS,
+  INSTR_MODE,
+  INSTR_OPCODE,
+  INSTR_OPERAND,
+  IP,
+  LEFT,
+  LOD,
+  Machine,
+  NIL,
+  NOP,
+  OUT,
+  PRG,
+  PROGRAM_COLS,
+  PROGRAM_LENGTH,
+  PROGRAM_ROWS,
+  RIGHT,
+  SAV,
+  STK,
+  SUB,
+  SWP,
+  TEQ,
+  TGT,
+  TLT,
+  UP,
+} from "./vm";
+
+/**
+ * Opcodes that generated levels use unless told otherwise. SND and TSC are
+ * left out because they need output or stack targets to be interesting.
+ */
+export const DEFAULT_OPCODES = [NOP, LOD, SAV, SWP, ADD, SUB, TEQ, TLT, TGT];
+
+export interface GeneratorOptions {
+  /**
+   * The same seed (and options) always generates the same level.
+   */
+  seed: number;
+
+  /**
+   * The minimum number of cycles the optimal solution should take.
+   */
+  minCycles?: number;
+
+  /**
+   * Opcodes that can be placed on the grid (END is always placed).
+   */
+  opcodes?: number[];
+
+  /**
+   * How many layouts to try before giving up.
+   */
+  attempts?: number;
+
+  /**
+   * Maximum number of states the solver can visit for each layout.
+   */
+  maxStates?: number;
+}
+
+/**
+ * Generate a random level which is proven to be solvable, with cycle targets
+ * based on its optimal solution.
+ *
+ * Each attempt carves a one way path from the start to an END, out of
+ * instructions that pass on the way through, then adds some dead ends.
+ * Layouts are only kept if the solver finds a solution that takes at least
+ * `minCycles`. Throws if no attempt succeeds.
+ */
+export function generateLevel({
+  seed,
+  minCycles = 8,
+  opcodes = DEFAULT_OPCODES,
+  attempts = 20,
+  maxStates = 5_000,
+}: GeneratorOptions): Level {
+  let random = seededRandom(seed);
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    let machine = layout(random, minCycles, opcodes);
+    if (!machine) continue;
+
+    let level: Level = {
+      id: `gen_${seed}`,
+      labels: [],
+      cycles: [0, 0, 0],
+      program: runLengthEncode([...machine.memory]),
+      seed,
+    };
+
+    let solution = solve(level, { maxStates });
+
+    if (solution.solved && solution.cycles >= minCycles) {
+      let gold = solution.cycles;
+      level.cycles = [gold, Math.ceil(gold * 1.25), Math.ceil(gold * 1.5)];
+      return level;
+    }
+  }
+
+  throw new Error(`Couldn't generate a level for seed ${seed}`);
+}
+
+/**
+ * A seed which is the same for everyone on a given day (e.g. 20240913).
+ */
+export function dailySeed(date: Date = new Date()): number {
+  let y = date.getUTCFullYear();
+  let m = date.getUTCMonth() + 1;
+  let d = date.getUTCDate();
+  return y * 10000 + m * 100 + d;
+}
+
+/**
+ * Lay out a random program (or nothing, if the layout would obviously be too
+ * short).
+ */
+function layout(
+  random: () => number,
+  minCycles: number,
+  opcodes: number[],
+): Machine | undefined {
+  let machine = new Machine();
+  let int = (max: number) => (random() * max) | 0;
+  let pick = <T>(values: T[]) => values[int(values.length)];
+  let isEmpty = (ptr: number) => machine.fetch(ptr, INSTR_OPCODE) === NIL;
+
+  let put = (ptr: number, instr: number[]) => {
+    machine.store(ptr, INSTR_OPCODE, instr[INSTR_OPCODE]);
+    machine.store(ptr, INSTR_OPERAND, instr[INSTR_OPERAND]);
+    machine.store(ptr, INSTR_MODE, instr[INSTR_MODE]);
+    machine.store(ptr, INSTR_DIRS, instr[INSTR_DIRS]);
+  };
+
+  // Carve a self avoiding walk from the start
+  let start = int(PROGRAM_LENGTH);
+  let path = [start];
+  let length = minCycles + int(minCycles);
+  put(start, [NOP, 0, IMMEDIATE_MODE, 0]);
+  machine.memory[IP] = start;
+  let initial = machine.dump();
+
+  while (path.length <= length) {
+    let ptr = path[path.length - 1];
+    let options = neighbours(ptr).filter(([next]) => isEmpty(next));
+    if (options.length === 0) break;
+    let [next, direction] = pick(options);
+
+    // Every step is one way, so that the path can't be skipped
+    machine.store(ptr, INSTR_DIRS, direction);
+
+    // Only keep instructions that pass on the way through, so that walking
+    // the path is always a solution
+    let tries = 0;
+    do {
+      put(
+        next,
+        tries++ < 10
+          ? randomInstruction(random, opcodes)
+          : [NOP, 0, IMMEDIATE_MODE, 0],
+      );
+    } while (!machine.move(direction));
+
+    path.push(next);
+  }
+
+  // Undo the side effects of walking the path
+  machine.memory.set(initial.subarray(0, PRG));
+  machine.memory.set(initial.subarray(OUT), OUT);
+
+  // The walk got stuck before it was long enough to need minCycles
+  if (path.length <= minCycles) return;
+
+  put(path[path.length - 1], [END, 0, IMMEDIATE_MODE, 0]);
+
+  // Branch dead ends off the path. They can only be left the way they were
+  // entered, so they never become shortcuts to somewhere further along.
+  for (let ptr of path.slice(0, -1)) {
+    if (random() > 0.3) continue;
+    let options = neighbours(ptr).filter(([next]) => isEmpty(next));
+    if (options.length === 0) continue;
+    let [next, direction] = pick(options);
+    let back = neighbours(next).find(([cell]) => cell === ptr)![1];
+    machine.store(ptr, INSTR_DIRS, machine.fetch(ptr, INSTR_DIRS) | direction);
+    put(next, randomInstruction(random, opcodes));
+    machine.store(next, INSTR_DIRS, back);
+  }
+
+  return machine;
+}
+
+/**
+ * Pick a random instruction with a sensible operand and mode. Conditionals
+ * test DBG against a small number, DAT or the top of the stack.
+ */
+function randomInstruction(random: () => number, opcodes: number[]) {
+  let int = (max: number) => (random() * max) | 0;
+  let opcode = opcodes[int(opcodes.length)];
+  let address = random() < 0.3;
+
+  switch (opcode) {
+    case SAV:
+    case SWP:
+      return [opcode, random() < 0.5 ? DAT : STK, ADDRESS_MODE, 0];
+
+    case LOD:
+    case ADD:
+    case SUB:
+    case MUL:
+    case DIV:
+    case MOD:
+    case AND:
+    case OR:
+    case XOR:
+    case SHL:
+    case SHR:
+    case TEQ:
+    case TLT:
+    case TGT:
+      return address
+        ? [opcode, random() < 0.5 ? DAT : STK, ADDRESS_MODE, 0]
+        : [opcode, int(10), IMMEDIATE_MODE, 0];
+
+    default:
+      return [opcode, 0, IMMEDIATE_MODE, 0];
+  }
+}
+
+/**
+ * The cells next to an instruction, along with the direction to each one.
+ */
+function neighbours(ptr: number): [ptr: number, direction: Direction][] {
+  let x = ptr % PROGRAM_COLS;
+  let y = (ptr / PROGRAM_COLS) | 0;
+  let cells: [number, Direction][] = [];
+  if (x > 0) cells.push([ptr - 1, LEFT]);
+  if (x < PROGRAM_COLS - 1) cells.push([ptr + 1, RIGHT]);
+  if (y > 0) cells.push([ptr - PROGRAM_COLS, UP]);
+  if (y < PROGRAM_ROWS - 1) cells.push([ptr + PROGRAM_COLS, DOWN]);
+  return cells;
+}
@@ -0,0 +1,86 @@
+/**
+ * A patch is a flat list of `[address, before, after]` triples describing
+ * the bytes that a single command changed.
+ */
+export type Patch = number[];
+
+/**
+ * Find the bytes that changed between two copies of memory.
+ */
+export function diff(before: ArrayLike<number>, after: ArrayLike<number>) {
+  let patch: Patch = [];
+
+  for (let addr = 0; addr < after.length; addr++) {
+    if (before[addr] !== after[addr]) {
+      patch.push(addr, before[addr], after[addr]);
+    }
+  }
+
+  return patch;
+}
+
+interface Entry<T> {
+  patch: Patch;
+  data: T | undefined;
+}
+
+/**
+ * Command history which stores patches rather than full memory snapshots, so
+ * that every command can be undone and redone cheaply. Each command can carry
+ * some extra data (such as the move that caused it).
+ */
+export class History<T = never> {
+  private undos: Entry<T>[] = [];
+  private redos: Entry<T>[] = [];
+
+  /**
+   * Record a command's patch. Recording a new command discards anything that
+   * could have been redone.
+   */
+  record(patch: Patch, data?: T) {
+    if (patch.length === 0) return;
+    this.undos.push({ patch, data });
+    this.redos = [];
+  }
+
+  /**
+   * The data for each command that can currently be undone, oldest first.
+   */
+  done(): (T | undefined)[] {
+    return this.undos.map((entry) => entry.data);
+  }
+
+  /**
+   * Revert the most recent command. Returns false if there was nothing to
+   * undo.
+   */
+  undo(memory: Uint8ClampedArray): boolean {
+    let entry = this.undos.pop();
+    if (!entry) return false;
+    let { patch } = entry;
+    for (let i = 0; i < patch.length; i += 3) memory[patch[i]] = patch[i + 1];
+    this.redos.push(entry);
+    return true;
+  }
+
+  /**
+   * Reapply the most recently undone command. Returns false if there was
+   * nothing to redo.
+   */
+  redo(memory: Uint8ClampedArray): boolean {
+    let entry = this.redos.pop();
+    if (!entry) return false;
+    let { patch } = entry;
+    for (let i = 0; i < patch.length; i += 3) memory[patch[i]] = patch[i + 2];
+    this.undos.push(entry);
+    return true;
+  }
+
+  /**
+   * Forget all commands.
+   */
+  clear() {
+    this.undos = [];
+    this.redos = [];
+  }
+}
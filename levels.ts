@@ -1,8 +1,135 @@
+import { runLengthDecode } from "./utils";
+import { Machine, MEMORY_SIZE } from "./vm";
+
 export interface Level {
   id: string;
   cycles: [gold: number, silver: number, bronze: number];
   program: number[];
   labels: string[];
+  // Values the program must send before it can halt
+  output?: number[];
+  // Values the stack must hold for TSC instructions to pass
+  stack?: number[];
+  // Whether the stack can overflow into the program
+  overflow?: boolean;
+  // Seed for the level's music (random if missing)
+  seed?: number;
+  // Whether x-ray vision is allowed (defaults to true)
+  xray?: boolean;
+  // Whether arithmetic wraps around instead of clamping
+  wrap?: boolean;
+}
+
+/**
+ * Apply a level's rules (expected output, expected stack, overflow and
+ * arithmetic) to a machine.
+ */
+export function configureMachine(machine: Machine, level: Level) {
+  machine.expectedOutput = level.output;
+  machine.expectedStack = level.stack;
+  machine.allowOverflow = level.overflow ?? false;
+  machine.wrapArithmetic = level.wrap ?? false;
+}
+
+/**
+ * Create a machine with a level's program loaded and its rules applied.
+ */
+export function createMachine(level: Level): Machine {
+  let machine = new Machine(runLengthDecode(level.program));
+  configureMachine(machine, level);
+  return machine;
+}
+
+/**
+ * Format a level as an entry for the `levels` array below.
+ */
+export function formatLevel(level: Level): string {
+  let { id, labels, cycles, program, ...rest } = level;
+  let lines = [
+    "{",
+    `  id: ${JSON.stringify(id)},`,
+    "  labels: [",
+    ...labels.map((label) => `    ${JSON.stringify(label)},`),
+    "  ],",
+    `  cycles: [${cycles.join(", ")}],`,
+    "  program:",
+    "    // prettier-ignore",
+    `    [${program.join(",")}],`,
+  ];
+
+  for (let [key, value] of Object.entries(rest)) {
+    if (value === undefined) continue;
+    let json = JSON.stringify(value).replace(/,/g, ", ");
+    lines.push(`  ${key}: ${json},`);
+  }
+
+  lines.push("},");
+  return lines.join("\n");
+}
+
+/**
+ * Parse a level from JSON, checking that it has the right shape (and that its
+ * program fits in memory).
+ */
+export function parseLevel(json: string): Level {
+  let level = JSON.parse(json);
+  let isBytes = (value: unknown) =>
+    Array.isArray(value) &&
+    value.every((n) => Number.isInteger(n) && n >= 0 && n <= 255);
+
+  if (typeof level?.id !== "string") {
+    throw new Error("Level needs an id");
+  }
+
+  if (
+    !Array.isArray(level.labels) ||
+    !level.labels.every((label: unknown) => typeof label === "string")
+  ) {
+    throw new Error("Level labels must be strings");
+  }
+
+  if (
+    !isBytes(level.cycles) ||
+    level.cycles.length !== 3 ||
+    level.cycles[0] > level.cycles[1] ||
+    level.cycles[1] > level.cycles[2]
+  ) {
+    throw new Error("Level needs gold <= silver <= bronze cycles");
+  }
+
+  // Programs are run length encoded as pairs of values and run lengths
+  let { program } = level;
+  if (
+    !Array.isArray(program) ||
+    program.length % 2 !== 0 ||
+    !isBytes(program.filter((_, i) => i % 2 === 0)) ||
+    !program.every((n, i) => i % 2 === 0 || (Number.isInteger(n) && n > 0))
+  ) {
+    throw new Error("Level program must be run length encoded bytes");
+  }
+
+  let size = program.reduce((sum, n, i) => (i % 2 ? sum + n : sum), 0);
+  if (size > MEMORY_SIZE) {
+    throw new Error(`Level program must fit in ${MEMORY_SIZE} bytes`);
+  }
+
+  for (let key of ["output", "stack"]) {
+    if (key in level && !isBytes(level[key])) {
+      throw new Error(`Level ${key} must be an array of bytes`);
+    }
+  }
+
+  for (let key of ["overflow", "xray", "wrap"]) {
+    if (key in level && typeof level[key] !== "boolean") {
+      throw new Error(`Level ${key} must be true or false`);
+    }
+  }
+
+  if ("seed" in level && !(Number.isInteger(level.seed) && level.seed >= 0)) {
+    throw new Error("Level seed must be a non-negative integer");
+  }
+
+  return level;
 }
 
 /**
@@ -19,6 +146,6 @@ export let levels: Level[] = [
     cycles: [10, 11, 12],
     program:
       // prettier-ignore
-      [0,1,122,1,0,2,1,1,0,247,11,1,0,7,13,1,0,3,1,1,0,39,1,1,0,11,1,1,0,39,1,1,0,11,1,1,0,39,11,1,1,1,0,2,1,1,0,3,1,1,0,3,1,1,0,39,1,1,0,51,1,1,0,51,11,1,2,1,0,134],
+      [0,1,122,1,0,2,1,1,0,247,11,1,0,7,13,1,0,3,1,1,0,39,1,1,0,11,1,1,0,39,1,1,0,11,1,1,0,39,11,1,1,1,0,2,1,1,0,3,1,1,0,3,1,1,0,39,1,1,0,51,1,1,0,51,11,1,2,1,0,147],
   },
 ];
@@ -0,0 +1,20 @@
+/// <reference types="node" />
+
+/**
+ * Checks all levels for problems from node (`pnpm lint:levels`).
+ */
+import { levels } from "./levels";
+import { lintLevels } from "./lint";
+
+let problems = lintLevels(levels);
+
+for (let { level, message, ptr } of problems) {
+  let location = ptr === undefined ? "" : ` (0x${ptr.toString(16)})`;
+  console.log(`${level}${location}: ${message}`);
+}
+
+console.log(`${problems.length} problem(s) in ${levels.length} level(s)`);
+
+if (problems.length) {
+  process.exitCode = 1;
+}
@@ -0,0 +1,148 @@
+import { Level } from "./levels";
+import { LOBBY_CAPACITY } from "./lobby";
+import { solve } from "./solver";
+import { runLengthDecode } from "./utils";
+import {
+  decodeTxt,
+  DOWN,
+  END,
+  INSTR_DIRS,
+  INSTR_MODE,
+  INSTR_OPCODE,
+  INSTR_OPERAND,
+  LEFT,
+  Machine,
+  MEMORY_SIZE,
+  NIL,
+  OUTPUT_LENGTH,
+  PROGRAM_COLS,
+  PROGRAM_LENGTH,
+  PROGRAM_ROWS,
+  RIGHT,
+  STACK_LENGTH,
+  TXT,
+  UP,
+} from "./vm";
+
+export interface Problem {
+  level: string;
+  message: string;
+  ptr?: number;
+}
+
+/**
+ * Check every level for problems that would otherwise only show up at
+ * runtime.
+ */
+export function lintLevels(levels: Level[]): Problem[] {
+  let problems: Problem[] = [];
+  let ids = new Set<string>();
+
+  for (let level of levels) {
+    if (ids.has(level.id)) {
+      problems.push({ level: level.id, message: "Duplicate level id" });
+    }
+
+    ids.add(level.id);
+    problems.push(...lintLevel(level));
+  }
+
+  // Levels past the lobby's capacity can't be reached from the game
+  for (let level of levels.slice(LOBBY_CAPACITY)) {
+    problems.push({
+      level: level.id,
+      message: `Doesn't fit in the lobby (only ${LOBBY_CAPACITY} levels fit)`,
+    });
+  }
+
+  return problems;
+}
+
+/**
+ * Check a single level for problems.
+ */
+export function lintLevel(level: Level): Problem[] {
+  let problems: Problem[] = [];
+  let report = (message: string, ptr?: number) =>
+    problems.push({ level: level.id, message, ptr });
+
+  let [gold, silver, bronze] = level.cycles;
+
+  if (gold > silver || silver > bronze) {
+    report(`Cycles should be gold <= silver <= bronze (${level.cycles})`);
+  }
+
+  if (level.output && level.output.length > OUTPUT_LENGTH) {
+    report(`Output has more than ${OUTPUT_LENGTH} values`);
+  }
+
+  if (level.stack && level.stack.length > STACK_LENGTH) {
+    report(`Stack has more than ${STACK_LENGTH} values`);
+  }
+
+  let program = runLengthDecode(level.program);
+
+  // Nothing else can be checked reliably if the memory is the wrong shape
+  if (program.length !== MEMORY_SIZE) {
+    report(`Program decodes to ${program.length} bytes, not ${MEMORY_SIZE}`);
+    return problems;
+  }
+
+  let machine = new Machine(program);
+  let hasEnd = false;
+
+  for (let ptr = 0; ptr < PROGRAM_LENGTH; ptr++) {
+    let opcode = machine.fetch(ptr, INSTR_OPCODE);
+    let operand = machine.fetch(ptr, INSTR_OPERAND);
+    let mode = machine.fetch(ptr, INSTR_MODE);
+    let dirs = machine.fetch(ptr, INSTR_DIRS);
+    if (opcode === NIL) continue;
+    if (opcode === END) hasEnd = true;
+
+    if (opcode === TXT) {
+      let index = decodeTxt(operand, mode).label;
+      if (level.labels[index] === undefined) {
+        report(`TXT refers to missing label ${index}`, ptr);
+      }
+    }
+
+    let x = ptr % PROGRAM_COLS;
+    let y = (ptr / PROGRAM_COLS) | 0;
+
+    let neighbours = [
+      [RIGHT, x + 1, y, "right"],
+      [DOWN, x, y + 1, "down"],
+      [LEFT, x - 1, y, "left"],
+      [UP, x, y - 1, "up"],
+    ] as const;
+
+    for (let [dir, nx, ny, name] of neighbours) {
+      if ((dirs & dir) === 0) continue;
+
+      if (nx < 0 || ny < 0 || nx >= PROGRAM_COLS || ny >= PROGRAM_ROWS) {
+        report(`Direction ${name} points off the grid`, ptr);
+      } else if (machine.fetch(nx + ny * PROGRAM_COLS, INSTR_OPCODE) === NIL) {
+        report(`Direction ${name} points into a NIL cell`, ptr);
+      }
+    }
+  }
+
+  if (!hasEnd) {
+    report("Program has no END instruction");
+    return problems;
+  }
+
+  let solution = solve(level);
+
+  if (solution.solved) {
+    if (solution.cycles > gold) {
+      report(`Gold needs ${gold} cycles but the best is ${solution.cycles}`);
+    }
+  } else if (solution.exhaustive) {
+    report("No END instruction can be reached");
+  } else {
+    report("Gave up searching for a reachable END instruction");
+  }
+
+  return problems;
+}
@@ -0,0 +1,86 @@
+import { Level } from "./levels";
+import { runLengthEncode } from "./utils";
+import {
+  END,
+  IMMEDIATE_MODE,
+  INSTR_DIRS,
+  INSTR_MODE,
+  INSTR_OPCODE,
+  INSTR_OPERAND,
+  IP,
+  LEFT,
+  LOD,
+  Machine,
+  NOP,
+  PROGRAM_COLS,
+  PROGRAM_ROWS,
+  RIGHT,
+  TXT,
+} from "./vm";
+
+export const LOBBY_ID = "lobby";
+
+const SPINE_COL = (PROGRAM_COLS / 2) | 0;
+const START = SPINE_COL + (PROGRAM_ROWS - 1) * PROGRAM_COLS;
+
+/**
+ * Number of levels that fit in the lobby. There's a branch on either side of
+ * every other row, except for the bottom row, where the debugger starts.
+ */
+export const LOBBY_CAPACITY = (((PROGRAM_ROWS - 1) / 2) | 0) * 2;
+
+/**
+ * Generate a hub program with a halt for each level.
+ *
+ * The debugger starts at the bottom of a vertical corridor, with branches
+ * leading off to the left and right. Each branch is a TXT instruction with
+ * the level's name, followed by a one-way `LOD N` (where N is the index of
+ * the level), followed by a halt. When the lobby halts, DBG holds the index
+ * of the level to open.
+ */
+export function createLobby(
+  levels: Level[],
+  describe: (level: Level) => string = defaultDescription,
+): Level {
+  let machine = new Machine();
+  let labels: string[] = [];
+
+  let put = (x: number, y: number, instr: number[]) => {
+    let ptr = x + y * PROGRAM_COLS;
+    machine.store(ptr, INSTR_OPCODE, instr[INSTR_OPCODE]);
+    machine.store(ptr, INSTR_OPERAND, instr[INSTR_OPERAND]);
+    machine.store(ptr, INSTR_MODE, instr[INSTR_MODE]);
+    machine.store(ptr, INSTR_DIRS, instr[INSTR_DIRS]);
+  };
+
+  for (let y = 0; y < PROGRAM_ROWS; y++) {
+    put(SPINE_COL, y, [NOP, 0, IMMEDIATE_MODE, 0]);
+  }
+
+  let count = Math.min(levels.length, LOBBY_CAPACITY);
+
+  for (let index = 0; index < count; index++) {
+    let y = (index >> 1) * 2;
+    let side = index & 1 ? 1 : -1;
+    let dir = side > 0 ? RIGHT : LEFT;
+    let label = labels.push(describe(levels[index])) - 1;
+    put(SPINE_COL + side, y, [TXT, label, IMMEDIATE_MODE, LEFT | RIGHT]);
+    put(SPINE_COL + side * 2, y, [LOD, index, IMMEDIATE_MODE, dir]);
+    put(SPINE_COL + side * 3, y, [END, 0, IMMEDIATE_MODE, 0]);
+  }
+
+  let intro = labels.push("choose a program to debug") - 1;
+  put(SPINE_COL, PROGRAM_ROWS - 1, [TXT, intro, IMMEDIATE_MODE, 0]);
+  machine.memory[IP] = START;
+
+  return {
+    id: LOBBY_ID,
+    cycles: [0, 0, 0],
+    labels,
+    program: runLengthEncode([...machine.memory]),
+  };
+}
+
+function defaultDescription(level: Level): string {
+  return `${level.id} (${level.cycles.join("/")} cycles)`;
+}
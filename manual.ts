@@ -0,0 +1,194 @@
+import { clear, GLYPH_WIDTH, label, LINE_HEIGHT, write } from "./canvas";
+import { OPCODES, REGISTERS } from "./opcodes";
+import { BLUE_2, GRAY_1, GRAY_2, WHITE } from "./palette";
+import {
+  ADDRESS_MODE,
+  IMMEDIATE_MODE,
+  INSTR_WIDTH,
+  MEMORY_SIZE,
+  OUT,
+  OUTPUT_LENGTH,
+  PRG,
+  PROGRAM_LENGTH,
+  STACK_LENGTH,
+  STK,
+} from "./vm";
+
+const PADDING = 4;
+
+export interface Page {
+  title: string;
+  lines: string[];
+}
+
+/**
+ * Build the pages of the manual. Opcode and register pages come from the
+ * same metadata that the debugger uses, so they can't fall out of date.
+ */
+export function createPages(): Page[] {
+  let opcodes = Object.keys(OPCODES)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  let registers = Object.keys(REGISTERS)
+    .map(Number)
+    .sort((a, b) => a - b);
+
+  let hex = (value: number) => `0x${value.toString(16)}`;
+
+  let pages: Page[] = [
+    {
+      title: "D13 REFERENCE MANUAL",
+      lines: [
+        "The D13 runs two dimensional programs on a 13x13 grid.",
+        "",
+        "Moving the debugger into a cell executes its instruction. If the instruction fails, the debugger stays where it was.",
+        "",
+        "Each cell shows which directions the debugger can leave it by. Find a way into an END instruction to halt the program.",
+        "",
+        "contents:",
+        "  instructions",
+        ...opcodes.map((opcode) => `    ${OPCODES[opcode]!.label}`),
+        "  addressing modes",
+        "  registers",
+        "  memory layout",
+      ],
+    },
+
+    ...opcodes.map((opcode) => {
+      let info = OPCODES[opcode]!;
+      return {
+        title: `${info.label} (opcode ${hex(opcode)})`,
+        lines: [info.description],
+      };
+    }),
+
+    {
+      title: "ADDRESSING MODES",
+      lines: [
+        "Every instruction has an operand and a mode.",
+        "",
+        `immediate (${IMMEDIATE_MODE}):`,
+        "  The operand is the value. LOD 10 loads 10 into DBG.",
+        "",
+        `address (${ADDRESS_MODE}):`,
+        "  The operand is the address of the value. LOD DAT loads the value in DAT into DBG.",
+        "",
+        "Reading STK in address mode reads the top of the stack.",
+      ],
+    },
+
+    {
+      title: "REGISTERS",
+      lines: [
+        "Registers live at the start of memory.",
+        "",
+        ...registers.map((addr) => {
+          let info = REGISTERS[addr]!;
+          let name = info.label.padEnd(4);
+          return `  ${String(addr).padStart(3)} ${name}${info.description}`;
+        }),
+      ],
+    },
+
+    {
+      title: "MEMORY LAYOUT",
+      lines: [
+        `  ${pad(0)} +-----------+`,
+        `      | registers |`,
+        `  ${pad(STK)} +-----------+`,
+        `      | stack     | ${STACK_LENGTH} values`,
+        `  ${pad(PRG)} +-----------+`,
+        `      | program   | ${PROGRAM_LENGTH} instructions`,
+        `  ${pad(OUT)} +-----------+`,
+        `      | output    | ${OUTPUT_LENGTH} values`,
+        `  ${pad(MEMORY_SIZE)} +-----------+`,
+        "",
+        `Each instruction is ${INSTR_WIDTH} bytes: opcode, operand, mode and directions.`,
+        "",
+        "If the stack overflows, it grows into the program.",
+      ],
+    },
+  ];
+
+  return pages;
+}
+
+function pad(addr: number) {
+  return String(addr).padStart(3);
+}
+
+/**
+ * A paged manual for the D13.
+ */
+export class Manual {
+  pages = createPages();
+  page = 0;
+
+  /**
+   * Move forwards or backwards through the pages.
+   */
+  turn(step: number) {
+    this.page = Math.max(0, Math.min(this.pages.length - 1, this.page + step));
+  }
+
+  /**
+   * Handle a key press.
+   */
+  keydown(event: KeyboardEvent) {
+    let { key } = event;
+
+    if (key === "ArrowLeft" || key === "h") {
+      this.turn(-1);
+    } else if (key === "ArrowRight" || key === "l" || key === " ") {
+      this.turn(+1);
+    } else if (key === "Home") {
+      this.page = 0;
+    } else {
+      return;
+    }
+
+    event.preventDefault();
+  }
+
+  draw() {
+    clear();
+
+    let { title, lines } = this.pages[this.page];
+    let cols = ((c.width - PADDING * 2) / GLYPH_WIDTH) | 0;
+    let y = PADDING;
+
+    label(PADDING, y, title, WHITE, BLUE_2);
+    y += LINE_HEIGHT * 2;
+
+    for (let line of lines.flatMap((line) => wrapWords(line, cols))) {
+      write(PADDING, y, line, GRAY_2);
+      y += LINE_HEIGHT;
+    }
+
+    let footer = `< ${this.page + 1}/${this.pages.length} >  esc to close`;
+    write(PADDING, c.height - PADDING - LINE_HEIGHT, footer, GRAY_1);
+  }
+}
+
+/**
+ * Break a line into chunks that fit within a number of columns, keeping
+ * words together (and keeping the line's indentation).
+ */
+function wrapWords(line: string, cols: number): string[] {
+  if (line.length <= cols) return [line];
+  let indent = line.match(/^ */)![0];
+  let chunks: string[] = [];
+  let chunk = "";
+
+  for (let word of line.trim().split(" ")) {
+    if (chunk && chunk.length + word.length + 1 > cols) {
+      chunks.push(chunk);
+      chunk = indent;
+    }
+    chunk = chunk.trim() ? `${chunk} ${word}` : indent + word;
+  }
+
+  chunks.push(chunk);
+  return chunks;
+}
@@ -0,0 +1,122 @@
+import { seededRandom } from "./utils";
+
+/**
+ * Scales as semitone offsets from the root note.
+ */
+const SCALES = [
+  [0, 2, 3, 5, 7, 8, 10], // minor
+  [0, 2, 3, 5, 7, 9, 10], // dorian
+  [0, 3, 5, 7, 10], // minor pentatonic
+  [0, 2, 4, 7, 9], // major pentatonic
+];
+
+/**
+ * Chord progressions as scale degrees, one chord per bar.
+ */
+const PROGRESSIONS = [
+  [0, 5, 3, 4],
+  [0, 3, 0, 4],
+  [0, 2, 5, 4],
+  [0, 0, 3, 3],
+];
+
+export const STEPS_PER_BAR = 16;
+export const BARS = 4;
+
+export interface Note {
+  /**
+   * Which step (sixteenth note) the note starts on.
+   */
+  step: number;
+
+  /**
+   * MIDI note number.
+   */
+  pitch: number;
+
+  /**
+   * How many steps the note lasts for.
+   */
+  length: number;
+}
+
+/**
+ * A looping piece of music.
+ */
+export interface Pattern {
+  /**
+   * Beats per minute.
+   */
+  tempo: number;
+
+  /**
+   * Total number of steps before the pattern loops.
+   */
+  steps: number;
+
+  bass: Note[];
+  lead: Note[];
+
+  /**
+   * Drum hits, where the pitch is 0 for a kick and 1 for a snare.
+   */
+  drums: Note[];
+}
+
+/**
+ * Generate a pattern from a seed. The same seed always generates the same
+ * pattern.
+ */
+export function generatePattern(seed: number): Pattern {
+  let random = seededRandom(seed);
+  let int = (max: number) => (random() * max) | 0;
+
+  let root = 45 + int(12);
+  let scale = SCALES[int(SCALES.length)];
+  let progression = PROGRESSIONS[int(PROGRESSIONS.length)];
+  let tempo = 84 + int(8) * 6;
+  let density = 0.3 + random() * 0.4;
+
+  // Turn a scale degree into a pitch, wrapping into other octaves
+  let note = (degree: number) => {
+    let octave = Math.floor(degree / scale.length);
+    return root + scale[degree - octave * scale.length] + octave * 12;
+  };
+
+  let bass: Note[] = [];
+  let lead: Note[] = [];
+  let drums: Note[] = [];
+
+  // The lead melody wanders up and down the scale from the chord's root
+  let degree = 0;
+
+  for (let bar = 0; bar < BARS; bar++) {
+    let chord = progression[bar];
+    let start = bar * STEPS_PER_BAR;
+
+    for (let beat = 0; beat < STEPS_PER_BAR; beat += 4) {
+      bass.push({ step: start + beat, pitch: note(chord) - 12, length: 3 });
+      drums.push({ step: start + beat, pitch: beat % 8 ? 1 : 0, length: 1 });
+    }
+
+    for (let step = 0; step < STEPS_PER_BAR; step += 2) {
+      if (random() > density) continue;
+      degree = Math.max(-2, Math.min(9, degree + int(5) - 2));
+      let length = random() < 0.3 ? 4 : 2;
+      lead.push({
+        step: start + step,
+        pitch: note(chord + degree) + 12,
+        length,
+      });
+    }
+  }
+
+  return { tempo, steps: BARS * STEPS_PER_BAR, bass, lead, drums };
+}
+
+/**
+ * Convert a MIDI note number to a frequency (in hertz).
+ */
+export function frequency(pitch: number): number {
+  return 440 * 2 ** ((pitch - 69) / 12);
+}
@@ -0,0 +1,193 @@
+import {
+  ADD,
+  AND,
+  CRY,
+  DIV,
+  MOD,
+  MUL,
+  OR,
+  SHL,
+  SHR,
+  XOR,
+  ALIGN_ABOVE,
+  ALIGN_BELOW,
+  ALIGN_CENTER,
+  ALIGN_LEFT,
+  ALIGN_RIGHT,
+  CYC,
+  DAT,
+  DBG,
+  END,
+  IP,
+  LOD,
+  NIL,
+  NOP,
+  OP,
+  SAV,
+  SND,
+  SP,
+  STA,
+  STK,
+  SUB,
+  SWP,
+  TEQ,
+  TGT,
+  TLT,
+  TRIGGER_ADJACENT,
+  TRIGGER_ALWAYS,
+  TRIGGER_CYCLES,
+  TRIGGER_ENTER,
+  TRIGGER_ONCE,
+  TSC,
+  TXT,
+} from "./vm";
+
+/**
+ * Opcode info lookup. The descriptions are also used to build the manual.
+ */
+export let OPCODES: {
+  [opcode: string]: { label: string; description: string } | undefined;
+} = {
+  [NIL]: {
+    label: "NIL",
+    description: "Nothing. The debugger can never move into a NIL cell.",
+  },
+  [NOP]: {
+    label: "NOP",
+    description: "No operation. The debugger can always move here.",
+  },
+  [LOD]: {
+    label: "LOD",
+    description: "Load the operand's value into DBG.",
+  },
+  [SAV]: {
+    label: "MOV",
+    description:
+      "Move DBG into the register named by the operand. MOV STK pushes DBG onto the stack, and fails if the stack is full (unless the level allows overflow).",
+  },
+  [SWP]: {
+    label: "SWP",
+    description:
+      "Swap DBG with the register named by the operand. SWP STK swaps DBG with the top of the stack.",
+  },
+  [ADD]: {
+    label: "ADD",
+    description: "Add the operand's value to DBG.",
+  },
+  [SUB]: {
+    label: "SUB",
+    description: "Subtract the operand's value from DBG.",
+  },
+  [MUL]: {
+    label: "MUL",
+    description: "Multiply DBG by the operand's value.",
+  },
+  [DIV]: {
+    label: "DIV",
+    description:
+      "Divide DBG by the operand's value, rounding down. Fails when dividing by zero.",
+  },
+  [MOD]: {
+    label: "MOD",
+    description:
+      "Set DBG to the remainder of dividing it by the operand's value. Fails when dividing by zero.",
+  },
+  [AND]: {
+    label: "AND",
+    description: "Bitwise AND DBG with the operand's value.",
+  },
+  [OR]: {
+    label: "OR",
+    description: "Bitwise OR DBG with the operand's value.",
+  },
+  [XOR]: {
+    label: "XOR",
+    description: "Bitwise XOR DBG with the operand's value.",
+  },
+  [SHL]: {
+    label: "SHL",
+    description: "Shift DBG left by the operand's value (in bits).",
+  },
+  [SHR]: {
+    label: "SHR",
+    description: "Shift DBG right by the operand's value (in bits).",
+  },
+  [TEQ]: {
+    label: "TEQ",
+    description:
+      "Test whether DBG is equal to the operand's value. The debugger can only move here if the test passes.",
+  },
+  [TLT]: {
+    label: "TLT",
+    description:
+      "Test whether DBG is less than the operand's value. The debugger can only move here if the test passes.",
+  },
+  [TGT]: {
+    label: "TGT",
+    description:
+      "Test whether DBG is greater than the operand's value. The debugger can only move here if the test passes.",
+  },
+  [TSC]: {
+    label: "TSC",
+    description:
+      "Test whether the stack holds the level's target values. The debugger can only move here if the test passes.",
+  },
+  [SND]: {
+    label: "SND",
+    description:
+      "Send DBG to the output port. Fails if the output port is full.",
+  },
+  [END]: {
+    label: "END",
+    description:
+      "Halt the program. If the level expects output, the output port must match it first.",
+  },
+  [TXT]: {
+    label: "TXT",
+    description:
+      "A comment left by the programmer. Behaves like NOP, but shows one of the level's labels.",
+  },
+};
+
+/**
+ * Register info lookup.
+ */
+export let REGISTERS: {
+  [name: string]: { label: string; description: string } | undefined;
+} = {
+  [STA]: { label: "STA", description: "status (1 once halted)" },
+  [DAT]: { label: "DAT", description: "general purpose data" },
+  [DBG]: { label: "DBG", description: "the debugger's own value" },
+  [STK]: { label: "STK", description: "top of the stack" },
+  [CYC]: { label: "CYC", description: "cycles taken so far" },
+  [IP]: { label: "IP", description: "instruction pointer" },
+  [SP]: { label: "SP", description: "stack pointer" },
+  [OP]: { label: "OP", description: "output pointer" },
+  [CRY]: { label: "CRY", description: "carry (1 if arithmetic overflowed)" },
+};
+
+/**
+ * TXT alignment info lookup.
+ */
+export let ALIGNMENTS: {
+  [align: string]: { label: string } | undefined;
+} = {
+  [ALIGN_ABOVE]: { label: "above" },
+  [ALIGN_BELOW]: { label: "below" },
+  [ALIGN_LEFT]: { label: "left" },
+  [ALIGN_RIGHT]: { label: "right" },
+  [ALIGN_CENTER]: { label: "center" },
+};
+
+/**
+ * TXT trigger info lookup.
+ */
+export let TRIGGERS: {
+  [trigger: string]: { label: string } | undefined;
+} = {
+  [TRIGGER_ENTER]: { label: "enter" },
+  [TRIGGER_ALWAYS]: { label: "always" },
+  [TRIGGER_ADJACENT]: { label: "adjacent" },
+  [TRIGGER_CYCLES]: { label: "cycles" },
+  [TRIGGER_ONCE]: { label: "once" },
+};
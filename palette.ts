@@ -0,0 +1,14 @@
+export const BLACK = "#000000";
+export const WHITE = "white";
+export const RED_1 = "#541828";
+export const RED_2 = "#931c31";
+export const GREEN_1 = "#18544c";
+export const GREEN_2 = "#3e9379";
+export const BLUE_1 = "#1d2040";
+export const BLUE_2 = "#1e409f";
+export const GRAY_1 = "#303030";
+export const GRAY_2 = "#747474";
+export const PURPLE_1 = "#541847";
+export const PURPLE_2 = "#813e93";
+export const YELLOW_1 = "#684817";
+export const YELLOW_2 = "#d7a12c";
@@ -0,0 +1,178 @@
+import { rect } from "./canvas";
+import {
+  BLUE_1,
+  BLUE_2,
+  GRAY_1,
+  GRAY_2,
+  GREEN_1,
+  GREEN_2,
+  WHITE,
+} from "./palette";
+
+/**
+ * Describes how a group of particles looks and moves when it's emitted.
+ */
+export interface Preset {
+  /**
+   * How many particles to emit.
+   */
+  count: number;
+
+  /**
+   * Each particle picks one of these colours at random.
+   */
+  colors: string[];
+
+  /**
+   * Minimum and maximum speed (in pixels per second).
+   */
+  speed: [number, number];
+
+  /**
+   * Minimum and maximum lifetime (in seconds).
+   */
+  life: [number, number];
+
+  /**
+   * Size of each particle (in pixels).
+   */
+  size?: number;
+
+  /**
+   * Downwards acceleration (in pixels per second per second).
+   */
+  gravity?: number;
+
+  /**
+   * Whether the particles should be spaced evenly around a circle, rather
+   * than flying off at random angles.
+   */
+  ring?: boolean;
+}
+
+/**
+ * Short lived sparks, for writing to a register.
+ */
+export function sparks(color: string): Preset {
+  return {
+    count: 8,
+    colors: [color, WHITE],
+    speed: [20, 60],
+    life: [0.2, 0.4],
+    gravity: 120,
+  };
+}
+
+/**
+ * An expanding ring, for passing a conditional.
+ */
+export const RIPPLE: Preset = {
+  count: 16,
+  colors: [GREEN_1, GREEN_2],
+  speed: [30, 30],
+  life: [0.3, 0.3],
+  ring: true,
+};
+
+/**
+ * A big celebratory burst, for halting.
+ */
+export const BURST: Preset = {
+  count: 40,
+  colors: [BLUE_1, BLUE_2, WHITE],
+  speed: [20, 100],
+  life: [0.5, 1],
+  size: 2,
+  gravity: 60,
+};
+
+/**
+ * A small cloud of dust, for a blocked move.
+ */
+export const PUFF: Preset = {
+  count: 6,
+  colors: [GRAY_1, GRAY_2],
+  speed: [5, 15],
+  life: [0.2, 0.3],
+};
+
+interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number;
+  gravity: number;
+  size: number;
+  color: string;
+}
+
+/**
+ * A fixed size pool of particles. Particles are reused once they die, and
+ * emitting into a full pool does nothing, so that effects can never slow the
+ * game down.
+ */
+export class Particles {
+  private particles: Particle[] = [];
+
+  constructor(private capacity: number) {}
+
+  /**
+   * Emit particles from a point using a preset.
+   */
+  emit(preset: Preset, x: number, y: number) {
+    let { count, colors, speed, life, size = 1, gravity = 0 } = preset;
+    let dead = this.particles.filter((particle) => particle.life <= 0);
+
+    for (let i = 0; i < count; i++) {
+      let angle = preset.ring
+        ? (i / count) * Math.PI * 2
+        : Math.random() * Math.PI * 2;
+      let velocity = between(speed);
+      let particle: Particle = {
+        x,
+        y,
+        vx: Math.cos(angle) * velocity,
+        vy: Math.sin(angle) * velocity,
+        life: between(life),
+        gravity,
+        size,
+        color: colors[(Math.random() * colors.length) | 0],
+      };
+
+      // Reuse dead particles before growing the pool
+      let reused = dead.pop();
+
+      if (reused) {
+        Object.assign(reused, particle);
+      } else if (this.particles.length < this.capacity) {
+        this.particles.push(particle);
+      } else {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Move every living particle forward in time (in seconds).
+   */
+  update(dt: number) {
+    for (let particle of this.particles) {
+      if (particle.life <= 0) continue;
+      particle.life -= dt;
+      particle.vy += particle.gravity * dt;
+      particle.x += particle.vx * dt;
+      particle.y += particle.vy * dt;
+    }
+  }
+
+  draw() {
+    for (let { x, y, life, size, color } of this.particles) {
+      if (life > 0) rect(x | 0, y | 0, size, size, color);
+    }
+  }
+}
+
+function between([min, max]: [number, number]): number {
+  return min + Math.random() * (max - min);
+}
@@ -0,0 +1,180 @@
+import { Level } from "./levels";
+
+/**
+ * Bump this whenever the shape of the saved progress changes, and add a
+ * migration to `migrate` for the previous version.
+ */
+export const PROGRESS_VERSION = 1;
+
+const STORAGE_KEY = "progress";
+
+/**
+ * 0 is gold, 1 is silver, 2 is bronze, and 3 is no medal at all.
+ */
+export type Medal = 0 | 1 | 2 | 3;
+
+export interface LevelProgress {
+  completed: boolean;
+  attempts: number;
+  bestCycles?: number;
+  bestMedal?: Medal;
+  bestMoves?: number[];
+}
+
+interface SavedProgress {
+  version: number;
+  levels: Record<string, LevelProgress>;
+}
+
+/**
+ * The subset of the Web Storage API that progress needs, so that
+ * `localStorage` can be swapped for something else outside of browsers.
+ */
+export interface ProgressStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+/**
+ * Storage that only lives as long as the process.
+ */
+export class MemoryStorage implements ProgressStorage {
+  private items: Record<string, string> = {};
+
+  getItem(key: string): string | null {
+    return this.items[key] ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items[key] = value;
+  }
+}
+
+/**
+ * The result of recording a level's completion.
+ */
+export interface Completion {
+  previous: LevelProgress | undefined;
+  newBest: boolean;
+}
+
+/**
+ * Work out which medal a number of cycles earns for a level.
+ */
+export function getScore(level: Level, cycles: number): Medal {
+  if (cycles <= level.cycles[0]) return 0;
+  if (cycles <= level.cycles[1]) return 1;
+  if (cycles <= level.cycles[2]) return 2;
+  return 3;
+}
+
+/**
+ * Persistent per-level progress (completions, personal bests and attempts).
+ */
+export class Progress {
+  private saved: SavedProgress;
+
+  /**
+   * Set when the saved progress is from a version we don't know about, so
+   * that it never gets overwritten.
+   */
+  private readOnly = false;
+
+  constructor(private storage: ProgressStorage) {
+    this.saved = this.read();
+  }
+
+  /**
+   * Get the progress for a level, if it has ever been attempted.
+   */
+  get(id: string): LevelProgress | undefined {
+    return this.saved.levels[id];
+  }
+
+  /**
+   * Record that a level was started.
+   */
+  recordAttempt(id: string) {
+    let progress = this.getOrCreate(id);
+    progress.attempts += 1;
+    this.write();
+  }
+
+  /**
+   * Record that a level was completed, keeping track of the best result.
+   */
+  recordCompletion(level: Level, cycles: number, moves: number[]): Completion {
+    let previous = this.get(level.id);
+    let progress = this.getOrCreate(level.id);
+    let medal = getScore(level, cycles);
+
+    // Keep a copy of the previous progress, so that it can be compared
+    previous = previous && { ...previous };
+
+    let newBest =
+      progress.bestCycles === undefined || cycles < progress.bestCycles;
+
+    progress.completed = true;
+
+    if (newBest) {
+      progress.bestCycles = cycles;
+      progress.bestMoves = moves;
+    }
+
+    if (progress.bestMedal === undefined || medal < progress.bestMedal) {
+      progress.bestMedal = medal;
+    }
+
+    this.write();
+    return { previous, newBest };
+  }
+
+  /**
+   * Move a level's progress to a new ID.
+   */
+  rename(id: string, newId: string) {
+    let progress = this.get(id);
+    if (!progress) return;
+    delete this.saved.levels[id];
+    this.saved.levels[newId] = progress;
+    this.write();
+  }
+
+  private getOrCreate(id: string): LevelProgress {
+    return (this.saved.levels[id] ??= { completed: false, attempts: 0 });
+  }
+
+  private read(): SavedProgress {
+    let saved: SavedProgress | undefined;
+
+    try {
+      let json = this.storage.getItem(STORAGE_KEY);
+      if (json) saved = JSON.parse(json);
+    } catch {
+      // Corrupted progress is treated the same as no progress
+    }
+
+    if (saved) {
+      let migrated = migrate(saved);
+      if (migrated) return migrated;
+      // Probably saved by a newer version of the game
+      this.readOnly = true;
+    }
+
+    return { version: PROGRESS_VERSION, levels: {} };
+  }
+
+  private write() {
+    if (this.readOnly) return;
+    this.storage.setItem(STORAGE_KEY, JSON.stringify(this.saved));
+  }
+}
+
+/**
+ * Upgrade saved progress from older versions. Returns undefined if the
+ * version is unknown.
+ */
+function migrate(saved: SavedProgress): SavedProgress | undefined {
+  if (saved.version !== PROGRESS_VERSION) return;
+  return saved;
+}
@@ -0,0 +1,63 @@
+/// <reference types="node" />
+
+/**
+ * Replays the reference solutions in `solutions/` from node (`pnpm replay`).
+ * Each file is named after a level's id, and contains one move string per
+ * line. Lines starting with `#` are comments.
+ */
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { levels } from "./levels";
+import { replay, ReplayResult } from "./replay";
+
+const DIR = process.argv[2] ?? "solutions";
+
+let failures = 0;
+let count = 0;
+let missing = 0;
+
+for (let file of readdirSync(DIR).filter((file) => file.endsWith(".txt"))) {
+  let id = file.slice(0, -".txt".length);
+  let level = levels.find((level) => level.id === id);
+  let lines = readFileSync(join(DIR, file), "utf8").split("\n");
+  let solutions = lines
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+
+  if (!level) {
+    console.log(`${file}: no level with id ${id}`);
+    missing += 1;
+    continue;
+  }
+
+  for (let moves of solutions) {
+    let result: ReplayResult;
+    let status = "";
+    count += 1;
+
+    // Bad move strings shouldn't stop the other solutions from being checked
+    try {
+      result = replay(level, moves);
+    } catch (error) {
+      failures += 1;
+      console.log(`${id}: ${(error as Error).message}`);
+      continue;
+    }
+
+    if (result.blockedAt !== undefined) {
+      status = `blocked at step ${result.blockedAt}`;
+    } else if (!result.halted) {
+      status = "did not halt";
+    }
+
+    if (status) failures += 1;
+    console.log(`${id}: ${status || `halted in ${result.cycles} cycles`}`);
+  }
+}
+
+console.log(`${count - failures}/${count} solution(s) passed`);
+if (missing) console.log(`${missing} file(s) had no matching level`);
+
+if (failures || missing) {
+  process.exitCode = 1;
+}
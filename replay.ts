@@ -0,0 +1,84 @@
+import { createMachine, Level } from "./levels";
+import { CYC, Direction, DOWN, HALTED, LEFT, RIGHT, STA, UP } from "./vm";
+
+const MOVE_CHARS: Record<Direction, string> = {
+  [RIGHT]: "R",
+  [DOWN]: "D",
+  [LEFT]: "L",
+  [UP]: "U",
+};
+
+const CHAR_MOVES: Record<string, Direction> = {
+  R: RIGHT,
+  D: DOWN,
+  L: LEFT,
+  U: UP,
+};
+
+export interface ReplayResult {
+  /**
+   * Whether the program halted.
+   */
+  halted: boolean;
+
+  /**
+   * The value of the cycles register when the replay stopped.
+   */
+  cycles: number;
+
+  /**
+   * The index of the first move that was blocked (including moves after the
+   * program had already halted), if any.
+   */
+  blockedAt?: number;
+}
+
+/**
+ * Turn a sequence of moves into a compact string (e.g. `RRDDLU`).
+ */
+export function encodeMoves(moves: number[]): string {
+  return moves.map((move) => MOVE_CHARS[move as Direction]).join("");
+}
+
+/**
+ * Turn a string of moves back into a sequence of directions. Whitespace is
+ * ignored, so long solutions can be split across lines.
+ */
+export function decodeMoves(text: string): Direction[] {
+  let moves: Direction[] = [];
+
+  for (let char of text.replace(/\s+/g, "")) {
+    let move = CHAR_MOVES[char.toUpperCase()];
+    if (move === undefined) throw new Error(`Invalid move "${char}"`);
+    moves.push(move);
+  }
+
+  return moves;
+}
+
+/**
+ * Play a sequence of moves against a level, stopping at the first move that
+ * gets blocked.
+ */
+export function replay(
+  level: Level,
+  moves: string | Direction[],
+): ReplayResult {
+  let machine = createMachine(level);
+  let { memory } = machine;
+  if (typeof moves === "string") moves = decodeMoves(moves);
+
+  for (let i = 0; i < moves.length; i++) {
+    if (memory[STA] === HALTED || !machine.move(moves[i])) {
+      return {
+        halted: memory[STA] === HALTED,
+        cycles: memory[CYC],
+        blockedAt: i,
+      };
+    }
+
+    memory[CYC] += 1;
+  }
+
+  return { halted: memory[STA] === HALTED, cycles: memory[CYC] };
+}
@@ -0,0 +1,179 @@
+import { Level } from "./levels";
+import { runLengthDecode } from "./utils";
+import {
+  ADDRESS_MODE,
+  CYC,
+  Direction,
+  DIRECTIONS,
+  HALTED,
+  INSTR_MODE,
+  INSTR_OPCODE,
+  INSTR_OPERAND,
+  INSTR_WIDTH,
+  Machine,
+  PRG,
+  PROGRAM_LENGTH,
+  STA,
+  SWP,
+} from "./vm";
+
+export type Solution =
+  // The shortest sequence of moves that halts the program
+  | { solved: true; moves: Direction[]; cycles: number }
+  // The program can't be halted (or the search gave up before it found out)
+  | { solved: false; exhaustive: boolean };
+
+export interface SolveOptions {
+  /**
+   * Maximum number of distinct machine states to visit before giving up.
+   */
+  maxStates?: number;
+
+  /**
+   * Values the program must send to its output port before it can halt.
+   */
+  expectedOutput?: number[];
+
+  /**
+   * Values the stack must hold for TSC instructions to pass.
+   */
+  expectedStack?: number[];
+
+  /**
+   * Whether the stack can overflow into the program.
+   */
+  allowOverflow?: boolean;
+
+  /**
+   * Whether arithmetic wraps around instead of clamping.
+   */
+  wrapArithmetic?: boolean;
+}
+
+/**
+ * A node in the search tree, which only remembers the move that led to it.
+ */
+interface Node {
+  parent: Node | undefined;
+  direction: Direction | undefined;
+}
+
+/**
+ * Find the shortest sequence of moves that halts a level's program.
+ *
+ * The search is breadth first over entire machine states, so registers and
+ * the stack are taken into account, as well as the program itself (which can
+ * be modified by stack overflows).
+ */
+export function solve(level: Level, options: SolveOptions = {}): Solution {
+  return solveProgram(runLengthDecode(level.program), {
+    expectedOutput: level.output,
+    expectedStack: level.stack,
+    allowOverflow: level.overflow,
+    wrapArithmetic: level.wrap,
+    ...options,
+  });
+}
+
+/**
+ * Find the shortest sequence of moves that halts a decoded program.
+ */
+export function solveProgram(
+  program: Iterable<number>,
+  {
+    maxStates = 100_000,
+    expectedOutput,
+    expectedStack,
+    allowOverflow = false,
+    wrapArithmetic = false,
+  }: SolveOptions = {},
+): Solution {
+  let machine = new Machine(program);
+  machine.expectedOutput = expectedOutput;
+  machine.expectedStack = expectedStack;
+  machine.allowOverflow = allowOverflow;
+  machine.wrapArithmetic = wrapArithmetic;
+  let root: Node = { parent: undefined, direction: undefined };
+
+  if (machine.memory[STA] === HALTED) {
+    return { solved: true, moves: [], cycles: machine.memory[CYC] };
+  }
+
+  let seen = new Set([key(machine.memory)]);
+  let queue: ([node: Node, memory: Uint8ClampedArray] | undefined)[] = [
+    [root, machine.dump()],
+  ];
+
+  for (let i = 0; i < queue.length; i++) {
+    let [node, memory] = queue[i]!;
+
+    // Only states that haven't been expanded yet need to keep their memory
+    queue[i] = undefined;
+
+    for (let direction of DIRECTIONS) {
+      machine.load(memory);
+      if (!machine.move(direction)) continue;
+      machine.memory[CYC] += 1;
+
+      let next: Node = { parent: node, direction };
+
+      if (machine.memory[STA] === HALTED) {
+        return {
+          solved: true,
+          moves: path(next),
+          cycles: machine.memory[CYC],
+        };
+      }
+
+      let k = key(machine.memory);
+      if (seen.has(k)) continue;
+      if (seen.size >= maxStates) return { solved: false, exhaustive: false };
+      seen.add(k);
+      queue.push([next, machine.dump()]);
+    }
+  }
+
+  return { solved: false, exhaustive: true };
+}
+
+/**
+ * Identify a machine state. The cycle count only ever goes up, so it would
+ * make every state unique, and is ignored unless the program can read it
+ * (where it stops at 255, so states still repeat eventually).
+ */
+function key(memory: Uint8ClampedArray): string {
+  if (readsCycles(memory)) return String.fromCharCode(...memory);
+  let cycles = memory[CYC];
+  memory[CYC] = 0;
+  let k = String.fromCharCode(...memory);
+  memory[CYC] = cycles;
+  return k;
+}
+
+/**
+ * Whether any instruction reads CYC, either as an address mode operand (e.g.
+ * `TLT CYC`) or by swapping it into DBG.
+ */
+function readsCycles(memory: Uint8ClampedArray): boolean {
+  for (let ptr = 0; ptr < PROGRAM_LENGTH; ptr++) {
+    let addr = PRG + ptr * INSTR_WIDTH;
+    if (memory[addr + INSTR_OPERAND] !== CYC) continue;
+    if (memory[addr + INSTR_MODE] === ADDRESS_MODE) return true;
+    if (memory[addr + INSTR_OPCODE] === SWP) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Walk back up the search tree to find the moves that led to a node.
+ */
+function path(node: Node): Direction[] {
+  let moves: Direction[] = [];
+
+  for (let n: Node | undefined = node; n?.direction; n = n.parent) {
+    moves.unshift(n.direction);
+  }
+
+  return moves;
+}
@@ -0,0 +1,183 @@
+import { clear, GLYPH_WIDTH, LINE_HEIGHT, rect, write } from "./canvas";
+import { GRAY_2, GREEN_2, WHITE } from "./palette";
+
+const PROMPT = "$ ";
+const PADDING = 4;
+
+export interface Command {
+  help: string;
+  run(args: string[]): string[] | void;
+}
+
+/**
+ * A simple shell with line editing and command history.
+ */
+export class Terminal {
+  /**
+   * Lines that have been printed to the terminal.
+   */
+  lines: string[] = [];
+
+  /**
+   * The line that is currently being edited, and the position of the cursor
+   * within it.
+   */
+  input = "";
+  cursor = 0;
+
+  /**
+   * Previously entered lines, and the position we've scrolled back to (which
+   * is the length of the history when we're not looking through it).
+   */
+  history: string[] = [];
+  historyIndex = 0;
+
+  /**
+   * Commands that can be run, including the built in ones.
+   */
+  commands: Record<string, Command>;
+
+  constructor(commands: Record<string, Command>) {
+    this.commands = {
+      help: {
+        help: "show this help",
+        run: () => [
+          "commands:",
+          ...Object.entries(this.commands).map(
+            ([name, command]) => `  ${name.padEnd(12)}${command.help}`,
+          ),
+        ],
+      },
+      clear: {
+        help: "clear the terminal",
+        run: () => {
+          this.lines = [];
+        },
+      },
+      ...commands,
+    };
+  }
+
+  /**
+   * Print lines to the terminal.
+   */
+  print(...lines: string[]) {
+    this.lines.push(...lines);
+  }
+
+  /**
+   * Run a line as though it had been typed in.
+   */
+  exec(line: string) {
+    this.print(PROMPT + line);
+
+    let [name, ...args] = line.trim().split(/\s+/);
+    if (!name) return;
+
+    if (this.history[this.history.length - 1] !== line) {
+      this.history.push(line);
+    }
+
+    if (Object.hasOwn(this.commands, name)) {
+      this.print(...(this.commands[name].run(args) ?? []));
+    } else {
+      this.print(`command not found: ${name}`);
+    }
+  }
+
+  /**
+   * Handle a key press.
+   */
+  keydown(event: KeyboardEvent) {
+    let { key, ctrlKey: ctrl } = event;
+    let { input, cursor } = this;
+
+    if (key === "Enter") {
+      this.input = "";
+      this.cursor = 0;
+      this.exec(input);
+      this.historyIndex = this.history.length;
+    } else if (key === "Backspace" && cursor > 0) {
+      this.input = input.slice(0, cursor - 1) + input.slice(cursor);
+      this.cursor -= 1;
+    } else if (key === "Delete") {
+      this.input = input.slice(0, cursor) + input.slice(cursor + 1);
+    } else if (key === "ArrowLeft" || (ctrl && key === "b")) {
+      this.cursor = Math.max(0, cursor - 1);
+    } else if (key === "ArrowRight" || (ctrl && key === "f")) {
+      this.cursor = Math.min(input.length, cursor + 1);
+    } else if (key === "Home" || (ctrl && key === "a")) {
+      this.cursor = 0;
+    } else if (key === "End" || (ctrl && key === "e")) {
+      this.cursor = input.length;
+    } else if (ctrl && key === "u") {
+      this.input = input.slice(cursor);
+      this.cursor = 0;
+    } else if (ctrl && key === "l") {
+      this.lines = [];
+    } else if (key === "ArrowUp" || (ctrl && key === "p")) {
+      this.browseHistory(-1);
+    } else if (key === "ArrowDown" || (ctrl && key === "n")) {
+      this.browseHistory(+1);
+    } else if (key.length === 1 && !ctrl) {
+      this.input = input.slice(0, cursor) + key + input.slice(cursor);
+      this.cursor += 1;
+    } else {
+      return;
+    }
+
+    event.preventDefault();
+  }
+
+  /**
+   * Move through the command history.
+   */
+  private browseHistory(step: number) {
+    let index = this.historyIndex + step;
+    if (index < 0 || index > this.history.length) return;
+    this.historyIndex = index;
+    this.input = this.history[index] ?? "";
+    this.cursor = this.input.length;
+  }
+
+  /**
+   * Draw the terminal, scrolled so that the input line is at the bottom.
+   */
+  draw() {
+    clear();
+
+    let cols = ((c.width - PADDING * 2) / GLYPH_WIDTH) | 0;
+    let rows = ((c.height - PADDING * 2) / LINE_HEIGHT) | 0;
+    let lines = [...this.lines, PROMPT + this.input].flatMap((line) =>
+      wrap(line, cols),
+    );
+    let visible = lines.slice(-rows);
+
+    for (let i = 0; i < visible.length; i++) {
+      let y = PADDING + i * LINE_HEIGHT;
+      let color = visible[i].startsWith(PROMPT) ? WHITE : GRAY_2;
+      write(PADDING, y, visible[i], color);
+    }
+
+    // Blinking cursor
+    if (performance.now() % 1000 < 500) {
+      let offset = PROMPT.length + this.cursor;
+      let inputRows = wrap(PROMPT + this.input, cols).length;
+      let row = visible.length - inputRows + ((offset / cols) | 0);
+      let x = PADDING + (offset % cols) * GLYPH_WIDTH;
+      let y = PADDING + row * LINE_HEIGHT;
+      rect(x, y + LINE_HEIGHT - 1, GLYPH_WIDTH - 1, 1, GREEN_2);
+    }
+  }
+}
+
+/**
+ * Break a line into chunks that fit within a number of columns.
+ */
+function wrap(line: string, cols: number): string[] {
+  let chunks: string[] = [];
+  for (let i = 0; i < line.length; i += cols) {
+    chunks.push(line.slice(i, i + cols));
+  }
+  return chunks.length ? chunks : [""];
+}
@@ -0,0 +1,99 @@
+/**
+ * An easing function maps linear progress (0-1) to eased progress.
+ */
+export type Easing = (t: number) => number;
+
+export const linear: Easing = (t) => t;
+export const easeOutQuad: Easing = (t) => t * (2 - t);
+export const easeInOutQuad: Easing = (t) =>
+  t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+
+/**
+ * A round trip that goes out and comes back again (peaks at t=0.5).
+ */
+export const bounce: Easing = (t) => 1 - Math.abs(1 - t * 2);
+
+export interface Tween {
+  /**
+   * How long the tween runs for (in milliseconds).
+   */
+  duration: number;
+
+  /**
+   * How long to wait before the tween starts (in milliseconds).
+   */
+  delay?: number;
+
+  easing?: Easing;
+
+  /**
+   * Called every time the timeline updates with the eased progress. Always
+   * called with the end value when the tween finishes.
+   */
+  update(t: number): void;
+}
+
+interface Playing {
+  tween: Tween;
+  start?: number;
+}
+
+/**
+ * A set of tweens that are stepped together from the game loop.
+ *
+ * Tweens can be given a key, so that starting a new tween with the same key
+ * (e.g. the debugger moving again) finishes the old one straight away,
+ * rather than letting them fight each other.
+ */
+export class Timeline {
+  private playing = new Map<unknown, Playing>();
+
+  /**
+   * Start a tween, finishing any tween already playing with the same key.
+   */
+  play(tween: Tween, key: unknown = tween) {
+    this.finish(key);
+    this.playing.set(key, { tween });
+    tween.update((tween.easing ?? linear)(0));
+  }
+
+  /**
+   * Jump a tween to its end. Does nothing if the tween isn't playing.
+   */
+  finish(key: unknown) {
+    let playing = this.playing.get(key);
+    if (!playing) return;
+    this.playing.delete(key);
+    let { tween } = playing;
+    tween.update((tween.easing ?? linear)(1));
+  }
+
+  /**
+   * Finish every tween that is playing.
+   */
+  finishAll() {
+    for (let key of [...this.playing.keys()]) this.finish(key);
+  }
+
+  /**
+   * Whether the tween for a key is still playing.
+   */
+  isPlaying(key: unknown): boolean {
+    return this.playing.has(key);
+  }
+
+  /**
+   * Step all of the tweens forward to a given time (in milliseconds). Tweens
+   * start counting from the first update after they were played.
+   */
+  update(now: number) {
+    for (let [key, playing] of this.playing) {
+      let { tween } = playing;
+      let start = (playing.start ??= now + (tween.delay ?? 0));
+      let t = Math.min(1, Math.max(0, (now - start) / tween.duration));
+      let easing = tween.easing ?? linear;
+      tween.update(easing(t));
+      if (t >= 1) this.playing.delete(key);
+    }
+  }
+}
@@ -49,3 +49,16 @@ export function runLengthDecode(array: number[]): number[] {
 
   return decoded;
 }
+
+/**
+ * Create a deterministic random number generator (mulberry32) which returns
+ * numbers between 0 and 1, like `Math.random`.
+ */
+export function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
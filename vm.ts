@@ -5,6 +5,8 @@ export const SP = 2; // Stack pointer
 export const CYC = 3; // Cycles register
 export const DBG = 4; // Debug register
 export const DAT = 5; // Data register
+export const OP = 6; // Output pointer
+export const CRY = 7; // Carry flag
 
 // OFFSETS
 export const STK = 10; // Stack starts at this address
@@ -23,7 +25,16 @@ export const TLT = 0x8; // Test if DBG is less than a value
 export const TGT = 0x9; // Test if DBG is greater than a value
 export const SND = 0xa; // Send DBG into a port
 export const TXT = 0xb; // A text marker
+export const TSC = 0xc; // Test if the stack matches the expected values
 export const END = 0xd; // Halt the program
+export const MUL = 0xe; // Multiply DBG by a value
+export const DIV = 0xf; // Divide DBG by a value
+export const MOD = 0x10; // Set DBG to the remainder of dividing it by a value
+export const AND = 0x11; // Bitwise AND DBG with a value
+export const OR = 0x12; // Bitwise OR DBG with a value
+export const XOR = 0x13; // Bitwise XOR DBG with a value
+export const SHL = 0x14; // Shift DBG left by a number of bits
+export const SHR = 0x15; // Shift DBG right by a number of bits
 
 // STATUSES
 export const RUNNING = 0;
@@ -34,11 +45,28 @@ export const RIGHT = 0b0001;
 export const DOWN = 0b0010;
 export const LEFT = 0b0100;
 export const UP = 0b1000;
+export const DIRECTIONS = [RIGHT, DOWN, LEFT, UP] as const;
+
+export type Direction = typeof RIGHT | typeof DOWN | typeof LEFT | typeof UP;
 
 // MODES
 export const IMMEDIATE_MODE = 0; // Operand will be treated as a value
 export const ADDRESS_MODE = 1; // Operand will be treated as an address
 
+// TXT ALIGNMENTS (bits 4-7 of a TXT instruction's operand)
+export const ALIGN_ABOVE = 0; // Centered above the instruction
+export const ALIGN_BELOW = 1; // Centered below the instruction
+export const ALIGN_LEFT = 2; // To the left of the instruction
+export const ALIGN_RIGHT = 3; // To the right of the instruction
+export const ALIGN_CENTER = 4; // Centered over the instruction
+
+// TXT TRIGGERS (bits 0-2 of a TXT instruction's mode)
+export const TRIGGER_ENTER = 0; // Visible while the debugger is on it
+export const TRIGGER_ALWAYS = 1; // Always visible
+export const TRIGGER_ADJACENT = 2; // Visible while the debugger is next to it
+export const TRIGGER_CYCLES = 3; // Visible after a number of cycles
+export const TRIGGER_ONCE = 4; // Visible the first time the debugger is on it
+
 // OFFSETS / SIZES
 export const INSTR_WIDTH = 4; // Width of instructions
 export const INSTR_OPCODE = 0; // Offset of instruction opcode
@@ -50,20 +78,63 @@ export const PROGRAM_COLS = 13; // Number of columns in a program
 export const PROGRAM_ROWS = 13; // Number of rows in a program
 export const PROGRAM_LENGTH = PROGRAM_COLS * PROGRAM_ROWS; // Number of instructions
 export const PROGRAM_SIZE = PROGRAM_LENGTH * INSTR_WIDTH; // Number of bytes
-export const MEMORY_SIZE = PRG + PROGRAM_SIZE;
+export const OUT = PRG + PROGRAM_SIZE; // Output port starts at this address
+export const OUTPUT_LENGTH = 13; // Max number of output values
+export const MEMORY_SIZE = OUT + OUTPUT_LENGTH;
+
+/**
+ * TXT instructions pack their settings into the operand and mode fields,
+ * because they never need to read a value.
+ *
+ * ```txt
+ * operand: aaaaiiii (a = alignment, i = label index)
+ * mode:    cccccttt (c = cycles for TRIGGER_CYCLES, t = trigger)
+ * ```
+ */
+export interface TxtFields {
+  label: number;
+  align: number;
+  trigger: number;
+  cycles: number;
+}
+
+/**
+ * Unpack the fields of a TXT instruction.
+ */
+export function decodeTxt(operand: number, mode: number): TxtFields {
+  return {
+    label: operand & 0b1111,
+    align: (operand >> 4) & 0b1111,
+    trigger: mode & 0b111,
+    cycles: (mode >> 3) & 0b11111,
+  };
+}
 
 /**
+ * Pack the fields of a TXT instruction into its operand and mode.
+ */
+export function encodeTxt({ label, align, trigger, cycles }: TxtFields) {
+  return {
+    operand: (label & 0b1111) | ((align & 0b1111) << 4),
+    mode: (trigger & 0b111) | ((cycles & 0b11111) << 3),
+  };
+}
+
+/**
+ * A virtual machine which owns its own memory, so that multiple programs can
+ * run side by side without interfering with each other.
+ *
  * Virtual machines have the following memory layout.
  *
  * ```txt
  * | 0 | STA | Status flag
  * | 1 | IP  | Instruction pointer
  * | 2 | SP  | Stack pointer
- * | 3 | DBG | Value of the DBG register
- * | 4 | DAT | Value of the DAT register
- * | 5 |     | (reserved)
- * | 6 |     | (reserved)
- * | 7 |     | (reserved)
+ * | 3 | CYC | Cycles register
+ * | 4 | DBG | Value of the DBG register
+ * | 5 | DAT | Value of the DAT register
+ * | 6 | OP  | Output pointer
+ * | 7 | CRY | Carry flag
  * | 8 |     | (reserved)
  * | 9 |     | (reserved)
  * (Stack starts here)
@@ -78,47 +149,343 @@ export const MEMORY_SIZE = PRG + PROGRAM_SIZE;
  * | 26 |     | The operand mode
  * | 27 |     | The instruction direction
  * | .. | ... | ...
+ * (Output starts here)
+ * | 700 |     | (value)
+ * | ... |     | (value)
+ * | 712 |     | (value)
  * ```
  */
-export let memory = new Uint8ClampedArray(MEMORY_SIZE);
+export class Machine {
+  memory = new Uint8ClampedArray(MEMORY_SIZE);
+
+  /**
+   * The values that the program must send to its output port before it is
+   * allowed to halt.
+   */
+  expectedOutput: number[] | undefined;
+
+  /**
+   * The values that the stack must hold for TSC instructions to pass. If this
+   * isn't set then TSC instructions expect an empty stack.
+   */
+  expectedStack: number[] | undefined;
+
+  /**
+   * Whether the stack is allowed to overflow into the program's memory. When
+   * this is off, values can't be pushed onto a full stack.
+   */
+  allowOverflow = false;
+
+  /**
+   * Whether arithmetic wraps around (mod 256) instead of clamping between 0
+   * and 255. Either way, CRY is set when a result goes out of range.
+   */
+  wrapArithmetic = false;
+
+  constructor(mem?: Iterable<number>) {
+    if (mem) this.load(mem);
+  }
+
+  /**
+   * Take a dump the current memory.
+   */
+  dump() {
+    return this.memory.slice();
+  }
+
+  /**
+   * Load new memory.
+   */
+  load(mem: Iterable<number>) {
+    // Copy the memory so that we're not mutating it, and pad it out in case it
+    // was saved before the output port existed.
+    let memory = new Uint8ClampedArray(MEMORY_SIZE);
+    memory.set([...mem]);
+    this.memory = memory;
+  }
+
+  /**
+   * Peek at the value on top of the stack.
+   */
+  peek(): number {
+    let memory = this.memory;
+    return memory[STK + memory[SP] - 1];
+  }
+
+  /**
+   * Push a value onto the top of the stack.
+   */
+  push(value: number): void {
+    let memory = this.memory;
+    memory[STK + memory[SP]] = value;
+    memory[SP] += 1;
+  }
+
+  /**
+   * Check whether there's room to push another value onto the stack.
+   */
+  canPush(): boolean {
+    return this.allowOverflow || this.memory[SP] < STACK_LENGTH;
+  }
+
+  /**
+   * Pop a value from the top of the stack.
+   */
+  pop(): number {
+    let memory = this.memory;
+    let value = memory[STK + memory[SP] - 1];
+    memory[SP] -= 1;
+    return value;
+  }
+
+  /**
+   * Fetch a part of an instruction.
+   * @param ptr The index of the instruction.
+   * @param offset The field to read from.
+   */
+  fetch(ptr: number, field: number): number {
+    return this.memory[PRG + ptr * INSTR_WIDTH + field];
+  }
+
+  /**
+   * Write to a field within an instruction.
+   * @param ptr The index of the instruction.
+   * @param offset The field to write to.
+   * @param value The value to write.
+   */
+  store(ptr: number, field: number, value: number): void {
+    this.memory[PRG + ptr * INSTR_WIDTH + field] = value;
+  }
+
+  /**
+   * Execute an instruction.
+   */
+  exec(ptr: number): boolean {
+    let memory = this.memory;
+    let opcode = this.fetch(ptr, INSTR_OPCODE);
+    let operand = this.fetch(ptr, INSTR_OPERAND);
+    let mode = this.fetch(ptr, INSTR_MODE);
+    let value = operand;
+
+    if (mode === ADDRESS_MODE) {
+      if (value === STK) {
+        value = this.peek() ?? 0;
+      } else {
+        value = memory[value];
+      }
+    }
+
+    switch (opcode) {
+      case END:
+        if (!this.outputMatches()) return false;
+        memory[STA] = HALTED;
+        return true;
+
+      case NIL:
+        return false;
+
+      case NOP:
+      case TXT:
+        return true;
+
+      case LOD:
+        memory[DBG] = value;
+        return true;
+
+      case SAV: {
+        if (operand === STK) {
+          if (!this.canPush()) return false;
+          this.push(memory[DBG]);
+        } else {
+          memory[operand] = memory[DBG];
+        }
+        return true;
+      }
+
+      case SWP: {
+        if (operand === STK) {
+          let tmp = this.pop();
+          this.push(memory[DBG]);
+          memory[DBG] = tmp;
+        } else {
+          let tmp = memory[operand];
+          memory[operand] = memory[DBG];
+          memory[DBG] = tmp;
+        }
+        return true;
+      }
+
+      case ADD:
+        return this.arithmetic(memory[DBG] + value);
+
+      case SUB:
+        return this.arithmetic(memory[DBG] - value);
+
+      case MUL:
+        return this.arithmetic(memory[DBG] * value);
+
+      case DIV:
+        if (value === 0) return false;
+        return this.arithmetic(Math.floor(memory[DBG] / value));
+
+      case MOD:
+        if (value === 0) return false;
+        return this.arithmetic(memory[DBG] % value);
+
+      case AND:
+        return this.arithmetic(memory[DBG] & value);
+
+      case OR:
+        return this.arithmetic(memory[DBG] | value);
+
+      case XOR:
+        return this.arithmetic(memory[DBG] ^ value);
+
+      case SHL:
+        return this.arithmetic(memory[DBG] * 2 ** value);
+
+      case SHR:
+        return this.arithmetic(Math.floor(memory[DBG] / 2 ** value));
+
+      case TEQ:
+        return memory[DBG] === value;
+
+      case TLT:
+        return memory[DBG] < value;
+
+      case TGT:
+        return memory[DBG] > value;
+
+      case TSC:
+        return this.stackMatches();
+
+      case SND:
+        if (memory[OP] >= OUTPUT_LENGTH) return false;
+        memory[OUT + memory[OP]] = memory[DBG];
+        memory[OP] += 1;
+        return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Check whether the values sent to the output port match the expected
+   * output (if there is one).
+   */
+  outputMatches(): boolean {
+    let expected = this.expectedOutput;
+    if (!expected) return true;
+    let memory = this.memory;
+    if (memory[OP] !== expected.length) return false;
+    return expected.every((value, i) => memory[OUT + i] === value);
+  }
+
+  /**
+   * Check whether the values on the stack (from the bottom up to the stack
+   * pointer) match the expected stack.
+   */
+  stackMatches(): boolean {
+    let expected = this.expectedStack ?? [];
+    let memory = this.memory;
+    if (memory[SP] !== expected.length) return false;
+    return expected.every((value, i) => memory[STK + i] === value);
+  }
+
+  /**
+   * Jump to the instruction at this address.
+   */
+  jump(ptr: number): boolean {
+    let ok = this.exec(ptr);
+    if (ok) this.memory[IP] = ptr;
+    return ok;
+  }
+
+  /**
+   * Move the debugger from its current instruction in a given direction.
+   */
+  move(direction: Direction): boolean {
+    let ip = this.memory[IP];
+
+    // Direction checks are too awkward with random programs
+    let dirs = this.fetch(ip, INSTR_DIRS);
+    if (dirs > 0 && (dirs & direction) === 0) return false;
+
+    // Moves can't leave the grid (or wrap onto the next row)
+    let x = ip % PROGRAM_COLS;
+    let y = (ip / PROGRAM_COLS) | 0;
+    if (direction === LEFT && x > 0) return this.jump(ip - 1);
+    if (direction === UP && y > 0) return this.jump(ip - PROGRAM_COLS);
+    if (direction === RIGHT && x < PROGRAM_COLS - 1) return this.jump(ip + 1);
+    if (direction === DOWN && y < PROGRAM_ROWS - 1) {
+      return this.jump(ip + PROGRAM_COLS);
+    }
+
+    return false;
+  }
+
+  /**
+   * Store the result of an arithmetic instruction in DBG, setting the carry
+   * flag if it didn't fit in a byte.
+   */
+  private arithmetic(result: number): boolean {
+    this.memory[CRY] = result < 0 || result > 255 ? 1 : 0;
+    this.memory[DBG] = this.wrapArithmetic ? result & 0xff : result;
+    return true;
+  }
+
+  /**
+   * Reset the memory.
+   */
+  reset() {
+    this.memory.fill(0);
+  }
+}
+
+/**
+ * The default machine, which the module level functions below operate on.
+ */
+export let machine = new Machine();
+
+/**
+ * The memory of the default machine.
+ */
+export let memory = machine.memory;
 
 /**
  * Take a dump the current memory.
  */
 export function dump() {
-  return memory.slice();
+  return machine.dump();
 }
 
 /**
  * Load new memory.
  */
 export function load(mem: Iterable<number>) {
-  // Copy the memory so that we're not mutating it
-  memory = new Uint8ClampedArray(mem);
+  machine.load(mem);
+  memory = machine.memory;
 }
 
 /**
  * Peek at the value on top of the stack.
  */
 export function peek(): number {
-  return memory[STK + memory[SP] - 1];
+  return machine.peek();
 }
 
 /**
  * Push a value onto the top of the stack.
  */
 export function push(value: number): void {
-  memory[STK + memory[SP]] = value;
-  memory[SP] += 1;
+  machine.push(value);
 }
 
 /**
  * Pop a value from the top of the stack.
  */
 export function pop(): number {
-  let value = memory[STK + memory[SP] - 1];
-  memory[SP] -= 1;
-  return value;
+  return machine.pop();
 }
 
 /**
@@ -127,7 +494,7 @@ export function pop(): number {
  * @param offset The field to read from.
  */
 export function fetch(ptr: number, field: number): number {
-  return memory[PRG + ptr * INSTR_WIDTH + field];
+  return machine.fetch(ptr, field);
 }
 
 /**
@@ -137,100 +504,33 @@ export function fetch(ptr: number, field: number): number {
  * @param value The value to write.
  */
 export function store(ptr: number, field: number, value: number): void {
-  memory[PRG + ptr * INSTR_WIDTH + field] = value;
+  machine.store(ptr, field, value);
 }
 
 /**
  * Execute an instruction.
  */
 export function exec(ptr: number): boolean {
-  let opcode = fetch(ptr, INSTR_OPCODE);
-  let operand = fetch(ptr, INSTR_OPERAND);
-  let mode = fetch(ptr, INSTR_MODE);
-  let value = operand;
-
-  if (mode === ADDRESS_MODE) {
-    if (value === STK) {
-      value = peek() ?? 0;
-    } else {
-      value = memory[value];
-    }
-  }
-
-  switch (opcode) {
-    case END:
-      memory[STA] = HALTED;
-      return true;
-
-    case NIL:
-      return false;
-
-    case NOP:
-    case TXT:
-      return true;
-
-    case LOD:
-      memory[DBG] = value;
-      return true;
-
-    case SAV: {
-      if (operand === STK) {
-        push(memory[DBG]);
-      } else {
-        memory[operand] = value;
-      }
-      return true;
-    }
-
-    case SWP: {
-      if (operand === STK) {
-        let tmp = pop();
-        push(memory[DBG]);
-        memory[DBG] = tmp;
-      } else {
-        let tmp = memory[operand];
-        memory[operand] = memory[DBG];
-        memory[DBG] = tmp;
-      }
-      return true;
-    }
-
-    case ADD:
-      memory[DBG] += value;
-      return true;
-
-    case SUB:
-      memory[DBG] -= value;
-      return true;
-
-    case TEQ:
-      return memory[DBG] === value;
-
-    case TLT:
-      return memory[DBG] < value;
-
-    case TGT:
-      return memory[DBG] > value;
-
-    case SND:
-      return true; // TODO
-  }
-
-  return false;
+  return machine.exec(ptr);
 }
 
 /**
  * Jump to the instruction at this address.
  */
 export function jump(ptr: number): boolean {
-  let ok = exec(ptr);
-  if (ok) memory[IP] = ptr;
-  return ok;
+  return machine.jump(ptr);
+}
+
+/**
+ * Move the debugger from its current instruction in a given direction.
+ */
+export function move(direction: Direction): boolean {
+  return machine.move(direction);
 }
 
 /**
  * Reset the memory.
  */
 export function reset() {
-  memory.fill(0);
+  machine.reset();
 }